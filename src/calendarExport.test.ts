@@ -0,0 +1,100 @@
+import { formatShiftCalendar } from './calendarExport';
+import { getShiftInstances } from './timeLogic';
+import { CrewRotation, Shift } from './types';
+
+describe('formatShiftCalendar', () => {
+  const now = Date.UTC(2025, 2, 1, 12, 0, 0);
+  const shifts: Shift[] = [
+    { name: 'Day', start: '06:00', end: '18:00', breaks: [{ start: '12:00', end: '12:30', name: 'Lunch' }] },
+    { name: 'Night', start: '18:00', end: '06:00', weekdays: [1, 2, 3, 4, 5] },
+  ];
+
+  // Unfolded content lines
+  const lines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+  it('should write one event per shift instance in local business time', () => {
+    const instances = getShiftInstances(shifts, 'Europe/Berlin', '2025-03-03', '2025-03-03');
+    const ics = formatShiftCalendar(instances, 'Europe/Berlin', undefined, now);
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines(ics)).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'UID:2025-03-03-Day@monyskow-simpleshiftselector-panel',
+        'DTSTAMP:20250301T120000Z',
+        'DTSTART;TZID=Europe/Berlin:20250303T060000',
+        'DTEND;TZID=Europe/Berlin:20250303T180000',
+        'SUMMARY:Day',
+        'DESCRIPTION:Production date: 2025-03-03\\nBreaks: 12:00-12:30 Lunch',
+        'DTSTART;TZID=Europe/Berlin:20250303T180000',
+        'DTEND;TZID=Europe/Berlin:20250304T060000',
+        'DESCRIPTION:Production date: 2025-03-03\\nWeekdays: Mon\\, Tue\\, Wed\\, Thu\\, Fri',
+      ])
+    );
+    expect(lines(ics).filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+  });
+
+  it('should describe the timezone with its DST transitions in the exported period', () => {
+    const instances = getShiftInstances(shifts, 'Europe/Berlin', '2025-03-28', '2025-03-31');
+    const ics = lines(formatShiftCalendar(instances, 'Europe/Berlin', undefined, now));
+    const timezone = ics.slice(ics.indexOf('BEGIN:VTIMEZONE'), ics.indexOf('END:VTIMEZONE') + 1);
+
+    expect(timezone).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Berlin',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0100',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250330T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('should name the crew of each instance', () => {
+    const rotation: CrewRotation = {
+      cycleLength: 2,
+      anchorDate: '2025-03-03',
+      assignments: [{ shift: 'Day', crews: ['A', 'B'] }],
+    };
+    const instances = getShiftInstances([shifts[0]], 'UTC', '2025-03-03', '2025-03-04');
+    const ics = lines(formatShiftCalendar(instances, 'UTC', rotation, now));
+
+    expect(ics.filter((line) => line.startsWith('SUMMARY'))).toEqual(['SUMMARY:Day (A)', 'SUMMARY:Day (B)']);
+    expect(ics).toContain('CATEGORIES:B');
+    expect(ics).toContain('DESCRIPTION:Production date: 2025-03-04\\nCrew: B\\nBreaks: 12:00-12:30 Lunch');
+  });
+
+  it('should include exception notes and leave out cancelled shifts', () => {
+    const instances = getShiftInstances(shifts, 'UTC', '2025-12-24', '2025-12-24', [
+      { date: '2025-12-24', type: 'modify', shift: 'Day', end: '12:00', note: 'Christmas Eve' },
+      { date: '2025-12-24', type: 'cancel', shift: 'Night' },
+    ]);
+    const ics = lines(formatShiftCalendar(instances, 'UTC', undefined, now));
+
+    expect(ics.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(ics).toContain('DTEND;TZID=UTC:20251224T120000');
+    expect(ics).toContain('DESCRIPTION:Production date: 2025-12-24\\nBreaks: 12:00-12:30 Lunch\\nChristmas Eve');
+  });
+
+  it('should escape text and fold long lines at 75 octets', () => {
+    const name = 'Früh; Montage, Halle 3 — Linie 1 bis 12 und Endkontrolle der Baugruppen vor dem Versand';
+    const instances = getShiftInstances([{ name, start: '06:00', end: '14:00' }], 'UTC', '2025-03-03', '2025-03-03');
+    const ics = formatShiftCalendar(instances, 'UTC', undefined, now);
+
+    expect(ics.split('\r\n').every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines(ics)).toContain(`SUMMARY:${name.replace(';', '\\;').replace(',', '\\,')}`);
+  });
+
+  it('should write an empty calendar without instances', () => {
+    expect(formatShiftCalendar([], 'UTC', undefined, now)).toBe(
+      'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//monyskow//Simple Shift Selector//EN\r\nCALSCALE:GREGORIAN\r\nMETHOD:PUBLISH\r\nEND:VCALENDAR\r\n'
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { CrewRotation, ShiftInstance } from './types';
+import { getShiftCrew } from './timeLogic';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const PRODUCT_ID = '-//monyskow//Simple Shift Selector//EN';
+const UID_DOMAIN = 'monyskow-simpleshiftselector-panel';
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTE_MS = 60 * 1000;
+const HALF_DAY_MS = 12 * 60 * MINUTE_MS;
+
+const getUtcOffset = (epochMs: number, tz: string): number => dayjs(epochMs).tz(tz).utcOffset();
+
+// UTC offset in iCalendar form, e.g. "+0130" or "-0500"
+const formatOffset = (minutes: number): string => {
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hours}${String(abs % 60).padStart(2, '0')}`;
+};
+
+// Escapes TEXT property values (RFC 5545, section 3.3.11)
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Folds a content line into chunks of at most 75 octets, continuation lines starting with a space
+const foldLine = (line: string): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const code = char.codePointAt(0) ?? 0;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.map((chunk, i) => (i === 0 ? chunk : ` ${chunk}`));
+};
+
+/**
+ * Finds the UTC offset changes of a timezone between two instants, to the minute.
+ * Offsets are sampled every 12 hours and each change is narrowed down with a binary search.
+ */
+const getOffsetTransitions = (
+  tz: string,
+  from: number,
+  to: number
+): Array<{ at: number; offsetFrom: number; offsetTo: number }> => {
+  const transitions: Array<{ at: number; offsetFrom: number; offsetTo: number }> = [];
+  for (let t = from; t < to; t += HALF_DAY_MS) {
+    const next = Math.min(t + HALF_DAY_MS, to);
+    const offsetFrom = getUtcOffset(t, tz);
+    const offsetTo = getUtcOffset(next, tz);
+    if (offsetFrom === offsetTo) {
+      continue;
+    }
+
+    // Minutes since the epoch: lo still has the old offset, hi already has the new one
+    let lo = Math.floor(t / MINUTE_MS);
+    let hi = Math.ceil(next / MINUTE_MS);
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (getUtcOffset(mid * MINUTE_MS, tz) === offsetFrom) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    transitions.push({ at: hi * MINUTE_MS, offsetFrom, offsetTo });
+  }
+  return transitions;
+};
+
+// Daylight saving time is any offset above the lowest one of the year (January or July, for both hemispheres)
+const isDaylightOffset = (offset: number, tz: string, at: number): boolean => {
+  const year = dayjs.utc(at).year();
+  const january = getUtcOffset(Date.UTC(year, 0, 1), tz);
+  const july = getUtcOffset(Date.UTC(year, 6, 1), tz);
+  return offset > Math.min(january, july);
+};
+
+/**
+ * Builds a VTIMEZONE for the period covered by the events. Instead of recurrence rules, every transition
+ * in the period is listed as its own observance, so any timezone known to the browser can be described.
+ */
+const formatTimezone = (tz: string, from: number, to: number): string[] => {
+  const observance = (dtstart: string, offsetFrom: number, offsetTo: number, at: number) => {
+    const type = isDaylightOffset(offsetTo, tz, at) ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${dtstart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${type}`,
+    ];
+  };
+
+  // The offset in effect before the first event, then every change after it
+  const initial = getUtcOffset(from, tz);
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${tz}`,
+    ...observance('19700101T000000', initial, initial, from),
+    ...getOffsetTransitions(tz, from, to).flatMap(({ at, offsetFrom, offsetTo }) =>
+      // Observance start is written as the local time before the change
+      observance(dayjs.utc(at + offsetFrom * MINUTE_MS).format('YYYYMMDD[T]HHmmss'), offsetFrom, offsetTo, at)
+    ),
+    'END:VTIMEZONE',
+  ];
+};
+
+/**
+ * Formats shift instances as an iCalendar (.ics) file for Outlook, Google Calendar and similar clients.
+ * Event times are local times in the business timezone, described by a VTIMEZONE covering the exported period.
+ * Each event is named after its shift (and crew, with a rotation) and lists the production date, crew,
+ * weekday schedule, breaks and exception note in its description. UIDs are stable per shift and date,
+ * so importing a new export updates the existing events.
+ *
+ * @param instances - Shift instances to export (see getShiftInstances)
+ * @param tz - IANA timezone the instances were calculated in
+ * @param rotation - Optional crew rotation
+ * @param now - Export time (UTC epoch milliseconds), defaults to the current time
+ * @returns iCalendar text with CRLF line endings
+ */
+export const formatShiftCalendar = (
+  instances: ShiftInstance[],
+  tz: string,
+  rotation?: CrewRotation,
+  now: number = Date.now()
+): string => {
+  const local = (epochMs: number) => dayjs(epochMs).tz(tz).format('YYYYMMDD[T]HHmmss');
+  const stamp = dayjs.utc(now).format('YYYYMMDD[T]HHmmss[Z]');
+
+  const events = instances.flatMap(({ shift, date, from, to }) => {
+    const crew = getShiftCrew(shift, rotation, date);
+    const details = [
+      `Production date: ${date}`,
+      crew && `Crew: ${crew}`,
+      shift.weekdays?.length && `Weekdays: ${shift.weekdays.map((day) => WEEKDAY_LABELS[day]).join(', ')}`,
+      shift.breaks?.length &&
+        `Breaks: ${shift.breaks.map((b) => `${b.start}-${b.end}${b.name ? ` ${b.name}` : ''}`).join(', ')}`,
+      shift.exception?.note,
+    ].filter((detail): detail is string => !!detail);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${date}-${encodeURIComponent(shift.name)}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${tz}:${local(from)}`,
+      `DTEND;TZID=${tz}:${local(to)}`,
+      `SUMMARY:${escapeText(crew ? `${shift.name} (${crew})` : shift.name)}`,
+      `DESCRIPTION:${escapeText(details.join('\n'))}`,
+      ...(crew ? [`CATEGORIES:${escapeText(crew)}`] : []),
+      'END:VEVENT',
+    ];
+  });
+
+  const from = Math.min(...instances.map((i) => i.from));
+  const to = Math.max(...instances.map((i) => i.to));
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(instances.length > 0 ? formatTimezone(tz, from, to) : []),
+    ...events,
+    'END:VCALENDAR',
+  ];
+  return lines.flatMap(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CalendarExport } from './CalendarExport';
+import { Shift, SimpleOptions } from '../types';
+
+describe('CalendarExport', () => {
+  const shifts: Shift[] = [
+    { name: 'Day', start: '06:00', end: '18:00' },
+    { name: 'Night', start: '18:00', end: '06:00' },
+  ];
+  const options = {
+    shifts,
+    timezone: 'America/New_York',
+    rotation: { cycleLength: 2, anchorDate: '2025-03-03', assignments: [{ shift: 'Day', crews: ['A', 'B'] }] },
+    exceptions: [{ date: '2025-03-04', type: 'cancel', shift: 'Night' }],
+  } as SimpleOptions;
+  const createObjectURL = jest.fn((_blob: Blob) => 'blob:calendar');
+
+  const readBlob = (blob: Blob) =>
+    new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.readAsText(blob);
+    });
+
+  const setRange = (from: string, to: string) => {
+    fireEvent.change(screen.getByLabelText('Calendar from'), { target: { value: from } });
+    fireEvent.change(screen.getByLabelText('Calendar to'), { target: { value: to } });
+  };
+
+  beforeEach(() => {
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = jest.fn();
+    jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    createObjectURL.mockClear();
+  });
+
+  it('should download the shift instances of the date range', async () => {
+    render(<CalendarExport shifts={shifts} options={options} />);
+
+    setRange('2025-03-03', '2025-03-04');
+    fireEvent.click(screen.getByText('Export .ics'));
+
+    const blob = createObjectURL.mock.calls[0][0];
+    const ics = await readBlob(blob);
+    expect(blob.type).toBe('text/calendar');
+    expect(ics).toContain('TZID:America/New_York');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+    expect(ics).toContain('SUMMARY:Day (A)');
+    expect(ics).toContain('SUMMARY:Day (B)');
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20250303T180000');
+    expect(HTMLAnchorElement.prototype.click).toHaveBeenCalled();
+  });
+
+  it('should report an empty or reversed date range', () => {
+    render(<CalendarExport shifts={[{ ...shifts[0], weekdays: [0] }]} options={options} />);
+
+    setRange('2025-03-04', '2025-03-03');
+    fireEvent.click(screen.getByText('Export .ics'));
+    expect(screen.getByText('Choose a start date on or before the end date')).toBeInTheDocument();
+
+    setRange('2025-03-03', '2025-03-04');
+    fireEvent.click(screen.getByText('Export .ics'));
+    expect(screen.getByText('No shifts run between these dates')).toBeInTheDocument();
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it('should report shifts that cannot be calculated', () => {
+    const added = { ...options, exceptions: [{ date: '2025-03-04', type: 'add', shift: 'Overtime' }] } as SimpleOptions;
+    render(<CalendarExport shifts={shifts} options={added} />);
+
+    setRange('2025-03-03', '2025-03-04');
+    fireEvent.click(screen.getByText('Export .ics'));
+
+    expect(screen.getByText(/^Overtime on 2025-03-04:/)).toBeInTheDocument();
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it('should limit the export to a year', () => {
+    render(<CalendarExport shifts={shifts} options={options} />);
+
+    setRange('2025-01-01', '2026-01-02');
+    fireEvent.click(screen.getByText('Export .ics'));
+
+    expect(screen.getByText('Export at most 366 days at once')).toBeInTheDocument();
+  });
+
+  it('should render nothing without shifts', () => {
+    const { container } = render(<CalendarExport shifts={[]} options={options} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
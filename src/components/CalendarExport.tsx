@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Alert, Button, Field, Input } from '@grafana/ui';
+import dayjs from 'dayjs';
+import { Shift, SimpleOptions } from '../types';
+import { getProductionDate, getShiftInstances } from '../timeLogic';
+import { formatShiftCalendar } from '../calendarExport';
+import { downloadFile } from './ShiftImportExport';
+
+// Longest period exported at once, to keep the file small enough for calendar clients
+const MAX_DAYS = 366;
+
+interface Props {
+  shifts: Shift[];
+  options?: SimpleOptions;
+}
+
+/**
+ * Download of the shift schedule for a date range as an iCalendar (.ics) file,
+ * with the timezone, rotation, exceptions and DST policy of the panel.
+ */
+export const CalendarExport: React.FC<Props> = ({ shifts, options }) => {
+  const timezone = options?.timezone || 'Europe/Warsaw';
+  const [fromDate, setFromDate] = useState(() => {
+    try {
+      return getProductionDate(timezone, options?.productionDayStart);
+    } catch {
+      return dayjs().format('YYYY-MM-DD');
+    }
+  });
+  const [toDate, setToDate] = useState(() => dayjs(fromDate).add(27, 'day').format('YYYY-MM-DD'));
+  const [error, setError] = useState<string | null>(null);
+
+  if (shifts.length === 0) {
+    return null;
+  }
+
+  const onExport = () => {
+    const days = dayjs(toDate).diff(dayjs(fromDate), 'day') + 1;
+    if (!dayjs(fromDate).isValid() || !dayjs(toDate).isValid() || days < 1) {
+      setError('Choose a start date on or before the end date');
+      return;
+    }
+    if (days > MAX_DAYS) {
+      setError(`Export at most ${MAX_DAYS} days at once`);
+      return;
+    }
+
+    try {
+      // A calendar silently missing shifts would be misleading, so any invalid instance stops the export
+      const invalid: string[] = [];
+      const instances = getShiftInstances(
+        shifts,
+        timezone,
+        fromDate,
+        toDate,
+        options?.exceptions,
+        options?.dstPolicy,
+        (shift, date, message) => invalid.push(`${shift.name} on ${date}: ${message}`)
+      );
+      if (invalid.length > 0) {
+        setError(invalid[0]);
+        return;
+      }
+      if (instances.length === 0) {
+        setError('No shifts run between these dates');
+        return;
+      }
+      downloadFile(
+        formatShiftCalendar(instances, timezone, options?.rotation),
+        `shifts-${fromDate}-${toDate}.ics`,
+        'text/calendar'
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The calendar cannot be created');
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
+        <Field label="Calendar from" htmlFor="calendar-export-from">
+          <Input
+            id="calendar-export-from"
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.currentTarget.value)}
+            width={18}
+          />
+        </Field>
+        <Field label="Calendar to" htmlFor="calendar-export-to">
+          <Input
+            id="calendar-export-to"
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.currentTarget.value)}
+            width={18}
+          />
+        </Field>
+        <Field>
+          <Button variant="secondary" icon="calendar-alt" onClick={onExport}>
+            Export .ics
+          </Button>
+        </Field>
+      </div>
+      {error && <Alert title={error} severity="error" />}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { CoverageTimeline } from './CoverageTimeline';
+
+describe('CoverageTimeline', () => {
+  it('should draw a bar per shift and confirm full coverage', () => {
+    render(
+      <CoverageTimeline
+        shifts={[
+          { name: 'Day', start: '06:00', end: '18:00' },
+          { name: 'Night', start: '18:00', end: '06:00' },
+        ]}
+      />
+    );
+
+    expect(screen.getByTitle('Day: 06:00 - 18:00')).toBeInTheDocument();
+    expect(screen.getByTitle('Night: 18:00 - 06:00 (+1d)')).toBeInTheDocument();
+    expect(screen.getByText('Every hour of the week is covered exactly once')).toBeInTheDocument();
+  });
+
+  it('should extend the timeline to the previous day for date-offset shifts', () => {
+    render(<CoverageTimeline shifts={[{ name: 'Night', start: '22:00', end: '06:00', dateOffset: -1 }]} />);
+
+    expect(screen.getByText('00:00 (-1d)')).toBeInTheDocument();
+    expect(screen.getByTitle('Night: 22:00 (-1d) - 06:00')).toBeInTheDocument();
+  });
+
+  it('should flag gaps with their weekdays', () => {
+    render(
+      <CoverageTimeline
+        shifts={[
+          { name: 'Day', start: '06:00', end: '18:00' },
+          { name: 'Night', start: '18:00', end: '06:00', weekdays: [1, 2, 3, 4, 5] },
+        ]}
+      />
+    );
+
+    expect(screen.getByText('Gap: 18:00 - 06:00 (+1d) (Sat, Sun)')).toBeInTheDocument();
+  });
+
+  it('should flag overlaps on the bars and in the list', () => {
+    render(
+      <CoverageTimeline
+        shifts={[
+          { name: 'Day', start: '06:00', end: '19:00' },
+          { name: 'Night', start: '18:00', end: '06:00' },
+        ]}
+      />
+    );
+
+    expect(screen.getByText('Overlap: Day and Night, 18:00 - 19:00')).toBeInTheDocument();
+    expect(screen.getAllByTitle('Overlap: 18:00 - 19:00')).toHaveLength(2);
+  });
+
+  it('should flag overlaps between shifts of neighbouring weekdays', () => {
+    render(
+      <CoverageTimeline
+        shifts={[
+          { name: 'Night', start: '22:00', end: '08:00', weekdays: [5] },
+          { name: 'Day', start: '06:00', end: '18:00', weekdays: [6] },
+        ]}
+      />
+    );
+
+    expect(screen.getByText('Overlap: Night and Day, 06:00 - 08:00 (Sat)')).toBeInTheDocument();
+    expect(screen.getByTitle('Overlap: 06:00 (+1d) - 08:00 (+1d)')).toBeInTheDocument();
+    expect(screen.getByTitle('Overlap: 06:00 - 08:00')).toBeInTheDocument();
+  });
+
+  it('should list invalid shifts', () => {
+    render(<CoverageTimeline shifts={[{ name: 'Broken', start: '8am', end: '16:00' }]} />);
+
+    expect(screen.getByText(/Shift 1 \(Broken\): Invalid time format/)).toBeInTheDocument();
+    expect(screen.queryByText('Every hour of the week is covered exactly once')).not.toBeInTheDocument();
+  });
+
+  it('should render nothing without shifts', () => {
+    const { container } = render(<CoverageTimeline shifts={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
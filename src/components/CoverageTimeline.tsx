@@ -0,0 +1,155 @@
+import React from 'react';
+import { Icon, useTheme2 } from '@grafana/ui';
+import { Shift } from '../types';
+import { getShiftCoverage } from '../timeLogic';
+
+const DAY_MINUTES = 24 * 60;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Time of day for a minute offset, with the day it falls on when it is not the production date
+const formatMinutes = (minutes: number): string => {
+  const day = Math.floor(minutes / DAY_MINUTES);
+  const time = minutes - day * DAY_MINUTES;
+  const clock = `${String(Math.floor(time / 60)).padStart(2, '0')}:${String(time % 60).padStart(2, '0')}`;
+  return day === 0 ? clock : `${clock} (${day > 0 ? '+' : ''}${day}d)`;
+};
+
+const formatRange = (start: number, end: number) => `${formatMinutes(start)} - ${formatMinutes(end)}`;
+
+// Weekday list in Monday-first order, e.g. " (Mon, Sat)"
+const formatWeekdays = (weekdays?: number[]) =>
+  weekdays
+    ? ` (${[...weekdays]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map((day) => WEEKDAY_LABELS[day])
+        .join(', ')})`
+    : '';
+
+interface Props {
+  shifts: Shift[];
+}
+
+// Moves a range by whole days to where it falls within a bar, as overlaps are given from the day they start on
+const alignToBar = (range: { start: number; end: number }, bar: { start: number }) => {
+  const days = Math.floor((range.start - bar.start) / DAY_MINUTES);
+  return { start: range.start - days * DAY_MINUTES, end: range.end - days * DAY_MINUTES };
+};
+
+/**
+ * Editor timeline drawing every shift as a bar over the day (or several days with dateOffset or long durations),
+ * followed by the gaps, overlaps and invalid shifts of the week found by getShiftCoverage.
+ */
+export const CoverageTimeline: React.FC<Props> = ({ shifts }) => {
+  const theme = useTheme2();
+  if (shifts.length === 0) {
+    return null;
+  }
+
+  const { bars, gaps, overlaps, invalid } = getShiftCoverage(shifts);
+  const shiftName = (index: number) => shifts[index].name || `Shift ${index + 1}`;
+
+  // Whole days spanned by the bars, at least the production date itself
+  const first = Math.min(0, ...bars.map((bar) => Math.floor(bar.start / DAY_MINUTES) * DAY_MINUTES));
+  const last = Math.max(DAY_MINUTES, ...bars.map((bar) => Math.ceil(bar.end / DAY_MINUTES) * DAY_MINUTES));
+  const position = (minutes: number) => `${((minutes - first) / (last - first)) * 100}%`;
+  const tickStep = last - first > 2 * DAY_MINUTES ? 12 * 60 : 6 * 60;
+  const ticks = Array.from({ length: (last - first) / tickStep + 1 }, (_, i) => first + i * tickStep);
+
+  const track: React.CSSProperties = {
+    position: 'relative',
+    flex: 1,
+    height: '16px',
+    background: theme.colors.background.secondary,
+    borderRadius: theme.shape.radius.default,
+  };
+  const segment = (start: number, end: number, background: string): React.CSSProperties => ({
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: position(start),
+    width: `calc(${position(end)} - ${position(start)})`,
+    background,
+    borderRadius: theme.shape.radius.default,
+  });
+  const label: React.CSSProperties = {
+    width: '120px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    fontSize: theme.typography.bodySmall.fontSize,
+  };
+  const row: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' };
+
+  return (
+    <div aria-label="Shift coverage" style={{ marginTop: '16px' }}>
+      <div style={row}>
+        <span style={label} />
+        <div style={{ ...track, background: 'none' }}>
+          {ticks.map((tick) => (
+            <span
+              key={tick}
+              style={{
+                position: 'absolute',
+                left: position(tick),
+                transform: tick === first ? 'none' : tick === last ? 'translateX(-100%)' : 'translateX(-50%)',
+                fontSize: theme.typography.bodySmall.fontSize,
+                color: theme.colors.text.secondary,
+              }}
+            >
+              {formatMinutes(tick)}
+            </span>
+          ))}
+        </div>
+      </div>
+      {bars.map((bar) => (
+        <div key={bar.index} style={row}>
+          <span style={label} title={shiftName(bar.index)}>
+            {shiftName(bar.index)}
+          </span>
+          <div style={track}>
+            <div
+              style={segment(bar.start, bar.end, theme.colors.primary.main)}
+              title={`${shiftName(bar.index)}: ${formatRange(bar.start, bar.end)}`}
+            />
+            {overlaps
+              .filter((overlap) => overlap.shifts.includes(bar.index))
+              .map((overlap) => alignToBar(overlap, bar))
+              .map((overlap, i) => (
+                <div
+                  key={i}
+                  style={segment(overlap.start, overlap.end, theme.colors.error.main)}
+                  title={`Overlap: ${formatRange(overlap.start, overlap.end)}`}
+                />
+              ))}
+          </div>
+        </div>
+      ))}
+
+      <div style={{ marginTop: '8px', fontSize: theme.typography.bodySmall.fontSize }}>
+        {bars.length > 0 && gaps.length === 0 && overlaps.length === 0 && (
+          <div style={{ color: theme.colors.success.text }}>
+            <Icon name="check" /> Every hour of the week is covered exactly once
+          </div>
+        )}
+        {gaps.map((gap, i) => (
+          <div key={`gap-${i}`} style={{ color: theme.colors.warning.text }}>
+            <Icon name="exclamation-triangle" /> Gap: {formatRange(gap.start, gap.end)}
+            {formatWeekdays(gap.weekdays)}
+          </div>
+        ))}
+        {overlaps.map((overlap, i) => (
+          <div key={`overlap-${i}`} style={{ color: theme.colors.error.text }}>
+            <Icon name="exclamation-triangle" /> Overlap: {shiftName(overlap.shifts[0])} and{' '}
+            {shiftName(overlap.shifts[1])}, {formatRange(overlap.start, overlap.end)}
+            {formatWeekdays(overlap.weekdays)}
+          </div>
+        ))}
+        {invalid.map(({ index, error }) => (
+          <div key={`invalid-${index}`} style={{ color: theme.colors.error.text }}>
+            <Icon name="times-circle" /> Shift {index + 1} ({shiftName(index)}): {error}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
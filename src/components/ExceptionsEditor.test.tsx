@@ -0,0 +1,158 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ExceptionsEditor } from './ExceptionsEditor';
+import { ShiftException, SimpleOptions } from '../types';
+import { FieldType, StandardEditorProps, toDataFrame } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+
+jest.mock('@grafana/runtime', () => {
+  const templateSrv = { replace: jest.fn(() => 'name,start,end\nWeekend,08:00,20:00') };
+  return { getTemplateSrv: () => templateSrv };
+});
+
+describe('ExceptionsEditor', () => {
+  const mockOnChange = jest.fn();
+
+  const createMockProps = (
+    exceptions: ShiftException[] = []
+  ): StandardEditorProps<ShiftException[], unknown, SimpleOptions> => ({
+    value: exceptions,
+    onChange: mockOnChange,
+    context: {
+      data: [],
+      options: {
+        shifts: [
+          { name: 'Day', start: '06:00', end: '18:00' },
+          { name: 'Night', start: '18:00', end: '06:00' },
+        ],
+      } as SimpleOptions,
+    },
+    item: {} as any,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add a cancellation of the first shift by default', () => {
+    render(<ExceptionsEditor {...createMockProps()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Add Exception/i }));
+
+    expect(mockOnChange).toHaveBeenCalledWith([{ date: expect.any(String), type: 'cancel', shift: 'Day' }]);
+  });
+
+  it('should offer the shifts of the query results when they are the shifts source', () => {
+    const plan = toDataFrame({
+      fields: [
+        { name: 'name', type: FieldType.string, values: ['Early', 'Late'] },
+        { name: 'start', type: FieldType.string, values: ['06:00', '14:00'] },
+        { name: 'end', type: FieldType.string, values: ['14:00', '22:00'] },
+      ],
+    });
+    const props = createMockProps();
+    props.context = { data: [plan], options: { shiftsSource: 'data' } as SimpleOptions };
+
+    render(<ExceptionsEditor {...props} />);
+    fireEvent.click(screen.getByRole('button', { name: /Add Exception/i }));
+
+    expect(mockOnChange).toHaveBeenCalledWith([{ date: expect.any(String), type: 'cancel', shift: 'Early' }]);
+  });
+
+  it('should offer the shifts of the shift plan text when it is the shifts source', () => {
+    const props = createMockProps();
+    props.context = { data: [], options: { shiftsSource: 'text', shiftsText: '${shift_plan}' } as SimpleOptions };
+
+    render(<ExceptionsEditor {...props} />);
+    fireEvent.click(screen.getByRole('button', { name: /Add Exception/i }));
+
+    expect(getTemplateSrv().replace).toHaveBeenCalledWith('${shift_plan}');
+    expect(mockOnChange).toHaveBeenCalledWith([{ date: expect.any(String), type: 'cancel', shift: 'Weekend' }]);
+  });
+
+  it('should not show time inputs for cancellations', () => {
+    render(<ExceptionsEditor {...createMockProps([{ date: '2025-12-24', type: 'cancel', shift: 'Night' }])} />);
+
+    expect(screen.getByDisplayValue('2025-12-24')).toBeInTheDocument();
+    expect(screen.queryByText('Start (HH:mm)')).not.toBeInTheDocument();
+  });
+
+  it('should switch the exception type', () => {
+    render(<ExceptionsEditor {...createMockProps([{ date: '2025-12-24', type: 'cancel', shift: 'Night' }])} />);
+
+    fireEvent.click(screen.getByLabelText('Change times'));
+
+    expect(mockOnChange).toHaveBeenCalledWith([{ date: '2025-12-24', type: 'modify', shift: 'Night' }]);
+  });
+
+  it('should edit times and note of a modified shift', () => {
+    const exception: ShiftException = {
+      date: '2025-12-24',
+      type: 'modify',
+      shift: 'Day',
+      start: '06:00',
+      end: '18:00',
+    };
+    render(<ExceptionsEditor {...createMockProps([exception])} />);
+
+    fireEvent.change(screen.getByDisplayValue('18:00'), { target: { value: '12:00' } });
+    expect(mockOnChange).toHaveBeenLastCalledWith([{ ...exception, end: '12:00' }]);
+
+    fireEvent.change(screen.getByPlaceholderText('Christmas Eve'), { target: { value: 'Half day' } });
+    expect(mockOnChange).toHaveBeenLastCalledWith([{ ...exception, note: 'Half day' }]);
+  });
+
+  it('should use a free-text name for added shifts', () => {
+    render(<ExceptionsEditor {...createMockProps([{ date: '2025-12-27', type: 'add', shift: '' }])} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Extra Shift'), { target: { value: 'Inventory' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith([{ date: '2025-12-27', type: 'add', shift: 'Inventory' }]);
+  });
+
+  it('should remove an exception', () => {
+    render(
+      <ExceptionsEditor
+        {...createMockProps([
+          { date: '2025-12-24', type: 'cancel', shift: 'Night' },
+          { date: '2025-12-31', type: 'cancel', shift: 'Day' },
+        ])}
+      />
+    );
+
+    fireEvent.click(screen.getAllByRole('button', { name: /Remove/i })[0]);
+
+    expect(mockOnChange).toHaveBeenCalledWith([{ date: '2025-12-31', type: 'cancel', shift: 'Day' }]);
+  });
+
+  it('should fill in times when switching to an added shift', () => {
+    render(<ExceptionsEditor {...createMockProps([{ date: '2025-12-27', type: 'cancel', shift: 'Day' }])} />);
+
+    fireEvent.click(screen.getByLabelText('Add shift'));
+
+    expect(mockOnChange).toHaveBeenCalledWith([
+      { date: '2025-12-27', type: 'add', shift: 'Day', start: '08:00', end: '16:00' },
+    ]);
+  });
+
+  it('should mask times and flag invalid or missing ones', () => {
+    render(
+      <ExceptionsEditor
+        {...createMockProps([
+          { date: '2025-12-27', type: 'add', shift: 'Inventory', start: '25:00' },
+          { date: '2025-12-24', type: 'modify', shift: 'Day' },
+        ])}
+      />
+    );
+
+    expect(screen.getByText('Use HH:mm between 00:00 and 23:59')).toBeInTheDocument();
+    expect(screen.getByText('Required for an added shift')).toBeInTheDocument();
+    expect(screen.getByText('Set a new start or end time')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByDisplayValue('25:00'), { target: { value: '0700' } });
+    expect(mockOnChange).toHaveBeenLastCalledWith([
+      { date: '2025-12-27', type: 'add', shift: 'Inventory', start: '07:00' },
+      { date: '2025-12-24', type: 'modify', shift: 'Day' },
+    ]);
+  });
+});
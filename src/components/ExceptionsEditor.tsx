@@ -0,0 +1,165 @@
+import React from 'react';
+import { StandardEditorProps } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+import { Field, Input, Button, RadioButtonGroup, Select } from '@grafana/ui';
+import dayjs from 'dayjs';
+import { ShiftException, SimpleOptions } from '../types';
+import { getConfiguredShifts } from '../shiftSources';
+import { TIME_ERROR, TIME_PATTERN, maskTime, onTimeBlur } from './SimpleEditor';
+
+const EXCEPTION_TYPES: Array<{ value: ShiftException['type']; label: string }> = [
+  { value: 'cancel', label: 'Cancel' },
+  { value: 'modify', label: 'Change times' },
+  { value: 'add', label: 'Add shift' },
+];
+
+// Time problems of an exception: added shifts need a start and an end, changed shifts at least one new time
+const getTimeErrors = (exception: ShiftException): { start?: string; end?: string } => {
+  if (exception.type === 'cancel') {
+    return {};
+  }
+  const check = (time: string | undefined, required: boolean) =>
+    time ? (TIME_PATTERN.test(time) ? undefined : TIME_ERROR) : required ? 'Required for an added shift' : undefined;
+  if (exception.type === 'modify' && !exception.start && !exception.end) {
+    return { start: 'Set a new start or end time' };
+  }
+  return {
+    start: check(exception.start, exception.type === 'add'),
+    end: check(exception.end, exception.type === 'add'),
+  };
+};
+
+export const ExceptionsEditor: React.FC<StandardEditorProps<ShiftException[], unknown, SimpleOptions>> = ({
+  value,
+  onChange,
+  context,
+}) => {
+  const exceptions = value || [];
+  const shifts = getConfiguredShifts(context.options, context.data, (text) => getTemplateSrv().replace(text));
+  const shiftOptions = shifts.map((s) => ({ label: s.name, value: s.name }));
+  const timeErrors = exceptions.map(getTimeErrors);
+
+  // Helper to update a specific exception
+  const onExceptionChange = (index: number, updated: ShiftException) => {
+    const newExceptions = [...exceptions];
+    newExceptions[index] = updated;
+    onChange(newExceptions);
+  };
+
+  // Helper to add a new exception, cancelling the first shift today by default
+  const onAddException = () => {
+    onChange([
+      ...exceptions,
+      { date: dayjs().format('YYYY-MM-DD'), type: 'cancel', shift: shiftOptions[0]?.value ?? '' },
+    ]);
+  };
+
+  // Helper to remove an exception
+  const onRemoveException = (index: number) => {
+    const newExceptions = [...exceptions];
+    newExceptions.splice(index, 1);
+    onChange(newExceptions);
+  };
+
+  return (
+    <div>
+      {exceptions.map((exception, index) => (
+        <div
+          key={index}
+          style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '8px', alignItems: 'flex-end' }}
+        >
+          <Field label="Date">
+            <Input
+              type="date"
+              value={exception.date}
+              onChange={(e) => onExceptionChange(index, { ...exception, date: e.currentTarget.value })}
+              width={18}
+            />
+          </Field>
+          <Field label="Type">
+            <RadioButtonGroup
+              options={EXCEPTION_TYPES}
+              value={exception.type}
+              onChange={(type) =>
+                // Added shifts start with the times of a new shift row, so they can be selected right away
+                onExceptionChange(
+                  index,
+                  type === 'add' && !exception.start && !exception.end
+                    ? { ...exception, type, start: '08:00', end: '16:00' }
+                    : { ...exception, type }
+                )
+              }
+            />
+          </Field>
+          <Field label="Shift">
+            {exception.type === 'add' ? (
+              <Input
+                value={exception.shift}
+                onChange={(e) => onExceptionChange(index, { ...exception, shift: e.currentTarget.value })}
+                width={20}
+                placeholder="Extra Shift"
+              />
+            ) : (
+              // eslint-disable-next-line @typescript-eslint/no-deprecated
+              <Select
+                options={shiftOptions}
+                value={exception.shift}
+                onChange={(selectable) => onExceptionChange(index, { ...exception, shift: selectable.value ?? '' })}
+                width={20}
+                aria-label={`Shift for exception ${index + 1}`}
+              />
+            )}
+          </Field>
+          {exception.type !== 'cancel' && (
+            <>
+              <Field label="Start (HH:mm)" invalid={!!timeErrors[index].start} error={timeErrors[index].start}>
+                <Input
+                  value={exception.start ?? ''}
+                  onChange={(e) =>
+                    onExceptionChange(index, { ...exception, start: maskTime(e.currentTarget.value) || undefined })
+                  }
+                  onBlur={(e) =>
+                    onTimeBlur(e.currentTarget.value, (start) => onExceptionChange(index, { ...exception, start }))
+                  }
+                  width={12}
+                  placeholder="08:00"
+                  inputMode="numeric"
+                  maxLength={5}
+                />
+              </Field>
+              <Field label="End (HH:mm)" invalid={!!timeErrors[index].end} error={timeErrors[index].end}>
+                <Input
+                  value={exception.end ?? ''}
+                  onChange={(e) =>
+                    onExceptionChange(index, { ...exception, end: maskTime(e.currentTarget.value) || undefined })
+                  }
+                  onBlur={(e) =>
+                    onTimeBlur(e.currentTarget.value, (end) => onExceptionChange(index, { ...exception, end }))
+                  }
+                  width={12}
+                  placeholder="12:00"
+                  inputMode="numeric"
+                  maxLength={5}
+                />
+              </Field>
+            </>
+          )}
+          <Field label="Note">
+            <Input
+              value={exception.note ?? ''}
+              onChange={(e) => onExceptionChange(index, { ...exception, note: e.currentTarget.value })}
+              width={20}
+              placeholder="Christmas Eve"
+            />
+          </Field>
+          <Button variant="destructive" size="md" onClick={() => onRemoveException(index)}>
+            Remove
+          </Button>
+        </div>
+      ))}
+      <Button variant="secondary" icon="plus" onClick={onAddException}>
+        Add Exception
+      </Button>
+    </div>
+  );
+};
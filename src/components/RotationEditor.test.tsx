@@ -0,0 +1,171 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RotationEditor } from './RotationEditor';
+import { CrewRotation, Shift, SimpleOptions } from '../types';
+import { FieldType, StandardEditorProps, toDataFrame } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+
+jest.mock('@grafana/runtime', () => {
+  const templateSrv = { replace: jest.fn(() => 'name,start,end\nWeekend,08:00,20:00') };
+  return { getTemplateSrv: () => templateSrv };
+});
+
+describe('RotationEditor', () => {
+  const mockOnChange = jest.fn();
+
+  const shifts: Shift[] = [
+    { name: 'Day', start: '06:00', end: '18:00' },
+    { name: 'Night', start: '18:00', end: '06:00' },
+  ];
+
+  const createMockProps = (
+    rotation?: CrewRotation,
+    configuredShifts: Shift[] = shifts
+  ): StandardEditorProps<CrewRotation | undefined, unknown, SimpleOptions> => ({
+    value: rotation,
+    onChange: mockOnChange,
+    context: { data: [], options: { shifts: configuredShifts } as SimpleOptions },
+    item: {} as any,
+  });
+
+  const rotation: CrewRotation = {
+    cycleLength: 2,
+    anchorDate: '2025-01-01',
+    assignments: [{ shift: 'Day', crews: ['A', 'B'] }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should offer to add a rotation when none is configured', () => {
+    render(<RotationEditor {...createMockProps()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Add Crew Rotation/i }));
+
+    expect(mockOnChange).toHaveBeenCalledWith(
+      expect.objectContaining({ cycleLength: 7, assignments: [], anchorDate: expect.any(String) })
+    );
+  });
+
+  it('should render a crew cell per shift and cycle day', () => {
+    render(<RotationEditor {...createMockProps(rotation)} />);
+
+    expect(screen.getByLabelText('Crew for Day on cycle day 1')).toHaveValue('A');
+    expect(screen.getByLabelText('Crew for Day on cycle day 2')).toHaveValue('B');
+    expect(screen.getByLabelText('Crew for Night on cycle day 2')).toHaveValue('');
+  });
+
+  it('should update an existing assignment', () => {
+    render(<RotationEditor {...createMockProps(rotation)} />);
+
+    fireEvent.change(screen.getByLabelText('Crew for Day on cycle day 2'), { target: { value: 'C' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ...rotation, assignments: [{ shift: 'Day', crews: ['A', 'C'] }] });
+  });
+
+  it('should create an assignment for a shift without crews', () => {
+    render(<RotationEditor {...createMockProps(rotation)} />);
+
+    fireEvent.change(screen.getByLabelText('Crew for Night on cycle day 2'), { target: { value: 'D' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith({
+      ...rotation,
+      assignments: [
+        { shift: 'Day', crews: ['A', 'B'] },
+        { shift: 'Night', crews: ['', 'D'] },
+      ],
+    });
+  });
+
+  it('should update the cycle length', () => {
+    render(<RotationEditor {...createMockProps(rotation)} />);
+
+    fireEvent.change(screen.getByDisplayValue('2'), { target: { value: '8' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ...rotation, cycleLength: 8 });
+  });
+
+  it('should apply the selected pattern to the first two shifts', () => {
+    render(<RotationEditor {...createMockProps(rotation)} />);
+
+    fireEvent.click(screen.getByLabelText(/4-on-4-off/));
+    fireEvent.click(screen.getByRole('button', { name: /Apply Pattern/i }));
+
+    expect(mockOnChange).toHaveBeenCalledWith({
+      ...rotation,
+      cycleLength: 8,
+      assignments: [
+        { shift: 'Day', crews: ['A', 'A', 'A', 'A', 'C', 'C', 'C', 'C'] },
+        { shift: 'Night', crews: ['B', 'B', 'B', 'B', 'D', 'D', 'D', 'D'] },
+      ],
+    });
+  });
+
+  it('should apply the continental pattern to the first three shifts', () => {
+    const threeShifts: Shift[] = [
+      { name: 'Early', start: '06:00', end: '14:00' },
+      { name: 'Late', start: '14:00', end: '22:00' },
+      { name: 'Night', start: '22:00', end: '06:00' },
+    ];
+    render(<RotationEditor {...createMockProps(rotation, threeShifts)} />);
+
+    fireEvent.click(screen.getByLabelText(/Continental/));
+    fireEvent.click(screen.getByRole('button', { name: /Apply Pattern/i }));
+
+    const applied: CrewRotation = mockOnChange.mock.calls[0][0];
+    expect(applied.cycleLength).toBe(28);
+    expect(applied.assignments.map((a) => a.shift)).toEqual(['Early', 'Late', 'Night']);
+  });
+
+  it('should disable the continental pattern when fewer than three shifts exist', () => {
+    render(<RotationEditor {...createMockProps(rotation)} />);
+
+    fireEvent.click(screen.getByLabelText(/Continental/));
+
+    expect(screen.getByRole('button', { name: /Apply Pattern/i })).toBeDisabled();
+  });
+
+  it('should disable patterns when fewer than two shifts exist', () => {
+    render(<RotationEditor {...createMockProps(rotation, [shifts[0]])} />);
+
+    expect(screen.getByRole('button', { name: /Apply Pattern/i })).toBeDisabled();
+  });
+
+  it('should offer the shifts of the query results when they are the shifts source', () => {
+    const plan = toDataFrame({
+      fields: [
+        { name: 'name', type: FieldType.string, values: ['Early', 'Late'] },
+        { name: 'start', type: FieldType.string, values: ['06:00', '14:00'] },
+        { name: 'end', type: FieldType.string, values: ['14:00', '22:00'] },
+      ],
+    });
+    const props = createMockProps(rotation);
+    props.context = { data: [plan], options: { shiftsSource: 'data' } as SimpleOptions };
+
+    render(<RotationEditor {...props} />);
+
+    expect(screen.getByLabelText('Crew for Late on cycle day 1')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Apply Pattern/i }));
+    const applied: CrewRotation = mockOnChange.mock.calls[0][0];
+    expect(applied.assignments.map((a) => a.shift)).toEqual(['Early', 'Late']);
+  });
+
+  it('should offer the shifts of the shift plan text when it is the shifts source', () => {
+    const props = createMockProps(rotation);
+    props.context = { data: [], options: { shiftsSource: 'text', shiftsText: '${shift_plan}' } as SimpleOptions };
+
+    render(<RotationEditor {...props} />);
+
+    expect(getTemplateSrv().replace).toHaveBeenCalledWith('${shift_plan}');
+    expect(screen.getByLabelText('Crew for Weekend on cycle day 1')).toBeInTheDocument();
+  });
+
+  it('should remove the rotation', () => {
+    render(<RotationEditor {...createMockProps(rotation)} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Remove Rotation/i }));
+
+    expect(mockOnChange).toHaveBeenCalledWith(undefined);
+  });
+});
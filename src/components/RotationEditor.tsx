@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { StandardEditorProps } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+import { Field, Input, Button, RadioButtonGroup } from '@grafana/ui';
+import dayjs from 'dayjs';
+import { CrewRotation, SimpleOptions } from '../types';
+import { ROTATION_PATTERNS, buildRotationAssignments } from '../rotationPatterns';
+import { getConfiguredShifts } from '../shiftSources';
+
+export const RotationEditor: React.FC<StandardEditorProps<CrewRotation | undefined, unknown, SimpleOptions>> = ({
+  value,
+  onChange,
+  context,
+}) => {
+  const shifts = getConfiguredShifts(context.options, context.data, (text) => getTemplateSrv().replace(text));
+  const [patternId, setPatternId] = useState<string>(ROTATION_PATTERNS[0].id);
+
+  if (!value) {
+    return (
+      <Button
+        variant="secondary"
+        icon="plus"
+        onClick={() => onChange({ cycleLength: 7, anchorDate: dayjs().format('YYYY-MM-DD'), assignments: [] })}
+      >
+        Add Crew Rotation
+      </Button>
+    );
+  }
+
+  const rotation = value;
+  const pattern = ROTATION_PATTERNS.find((p) => p.id === patternId) ?? ROTATION_PATTERNS[0];
+  const cycleDays = Array.from({ length: Math.max(1, rotation.cycleLength || 1) }, (_, day) => day);
+
+  // Helper to update the crew for one shift on one cycle day
+  const onCrewChange = (shiftName: string, day: number, crew: string) => {
+    const existing = rotation.assignments.find((a) => a.shift === shiftName);
+    const crews = [...(existing?.crews ?? [])];
+    while (crews.length <= day) {
+      crews.push('');
+    }
+    crews[day] = crew;
+
+    const assignments = existing
+      ? rotation.assignments.map((a) => (a === existing ? { ...a, crews } : a))
+      : [...rotation.assignments, { shift: shiftName, crews }];
+    onChange({ ...rotation, assignments });
+  };
+
+  // Helper to fill the grid from a predefined pattern, the first shifts taking its slots in order
+  const slotCount = pattern.slots.length;
+  const onApplyPattern = () => {
+    const shiftNames = shifts.map((shift) => shift.name);
+    onChange({
+      ...rotation,
+      cycleLength: pattern.cycleLength,
+      assignments: buildRotationAssignments(pattern, shiftNames),
+    });
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-end' }}>
+        <Field label="Cycle length (days)">
+          <Input
+            type="number"
+            min={1}
+            value={rotation.cycleLength}
+            onChange={(e) =>
+              onChange({ ...rotation, cycleLength: Math.max(1, parseInt(e.currentTarget.value, 10) || 1) })
+            }
+            width={12}
+          />
+        </Field>
+        <Field label="Anchor date" description="Date of cycle day 1">
+          <Input
+            type="date"
+            value={rotation.anchorDate}
+            onChange={(e) => onChange({ ...rotation, anchorDate: e.currentTarget.value })}
+            width={20}
+          />
+        </Field>
+      </div>
+
+      <Field
+        label="Pattern"
+        description={`${pattern.description}. Applies to the first ${slotCount} shifts (${pattern.slots
+          .map((slot) => slot.label)
+          .join(', ')}).`}
+      >
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          <RadioButtonGroup
+            options={ROTATION_PATTERNS.map((p) => ({ value: p.id, label: p.label }))}
+            value={patternId}
+            onChange={setPatternId}
+            size="sm"
+          />
+          <Button variant="secondary" size="sm" onClick={onApplyPattern} disabled={shifts.length < slotCount}>
+            Apply Pattern
+          </Button>
+        </div>
+      </Field>
+
+      <Field label="Crew assignments" description="Crew on duty for each shift and cycle day (leave empty for none)">
+        <div style={{ overflowX: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>Shift</th>
+                {cycleDays.map((day) => (
+                  <th key={day} style={{ textAlign: 'center' }}>
+                    {day + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shifts.map((shift) => {
+                const crews = rotation.assignments.find((a) => a.shift === shift.name)?.crews ?? [];
+                return (
+                  <tr key={shift.name}>
+                    <td style={{ paddingRight: '8px', whiteSpace: 'nowrap' }}>{shift.name}</td>
+                    {cycleDays.map((day) => (
+                      <td key={day}>
+                        <Input
+                          value={crews[day] ?? ''}
+                          onChange={(e) => onCrewChange(shift.name, day, e.currentTarget.value)}
+                          width={5}
+                          aria-label={`Crew for ${shift.name} on cycle day ${day + 1}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </Field>
+
+      <Button variant="destructive" size="sm" onClick={() => onChange(undefined)}>
+        Remove Rotation
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ShiftImportExport } from './ShiftImportExport';
+import { Shift } from '../types';
+
+describe('ShiftImportExport', () => {
+  const shifts: Shift[] = [
+    { name: 'Morning', start: '06:00', end: '14:00' },
+    { name: 'Afternoon', start: '14:00', end: '22:00' },
+    { name: 'Night', start: '22:00', end: '06:00' },
+  ];
+
+  const readBlob = (blob: Blob) =>
+    new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.readAsText(blob);
+    });
+
+  const openImport = (text: string) => {
+    fireEvent.click(screen.getByText('Import'));
+    fireEvent.change(screen.getByLabelText('Shift plan to import'), { target: { value: text } });
+    fireEvent.click(screen.getByText('Preview'));
+  };
+
+  describe('Export', () => {
+    const createObjectURL = jest.fn((_blob: Blob) => 'blob:shifts');
+
+    beforeEach(() => {
+      URL.createObjectURL = createObjectURL;
+      URL.revokeObjectURL = jest.fn();
+      jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      createObjectURL.mockClear();
+    });
+
+    it('should download the shifts and timezone as JSON', async () => {
+      render(<ShiftImportExport shifts={shifts} timezone="Europe/Berlin" onImport={jest.fn()} />);
+
+      fireEvent.click(screen.getByText('Export JSON'));
+
+      const blob = createObjectURL.mock.calls[0][0];
+      expect(blob.type).toBe('application/json');
+      expect(JSON.parse(await readBlob(blob))).toEqual({ timezone: 'Europe/Berlin', shifts });
+      expect(HTMLAnchorElement.prototype.click).toHaveBeenCalled();
+    });
+
+    it('should download the shifts as CSV', async () => {
+      render(<ShiftImportExport shifts={shifts} timezone="UTC" onImport={jest.fn()} />);
+
+      fireEvent.click(screen.getByText('Export CSV'));
+
+      const blob = createObjectURL.mock.calls[0][0];
+      expect(blob.type).toBe('text/csv');
+      expect((await readBlob(blob)).split('\n').slice(0, 3)).toEqual([
+        '# timezone: UTC',
+        'name,start,end,duration,dateOffset,weekdays,breaks',
+        'Morning,06:00,14:00,,,,',
+      ]);
+    });
+
+    it('should release the download URL only after the download has started', () => {
+      jest.useFakeTimers();
+      render(<ShiftImportExport shifts={shifts} onImport={jest.fn()} />);
+
+      fireEvent.click(screen.getByText('Export JSON'));
+      expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+      jest.runAllTimers();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:shifts');
+      jest.useRealTimers();
+    });
+
+    it('should disable export without shifts', () => {
+      render(<ShiftImportExport shifts={[]} onImport={jest.fn()} />);
+
+      expect(screen.getByText('Export JSON').closest('button')).toBeDisabled();
+      expect(screen.getByText('Export CSV').closest('button')).toBeDisabled();
+    });
+  });
+
+  describe('Import', () => {
+    it('should preview the changes before replacing the shifts', () => {
+      const onImport = jest.fn();
+      render(<ShiftImportExport shifts={shifts} onImport={onImport} />);
+
+      openImport('name,start,end\nMorning,06:00,14:00\nAfternoon,14:00,23:00\nLate,23:00,06:00\nWeekend,08:00,20:00');
+
+      expect(screen.getByText('Keep Morning (06:00 - 14:00)')).toBeInTheDocument();
+      expect(screen.getByText('Change Afternoon: 14:00 - 22:00 → 14:00 - 23:00')).toBeInTheDocument();
+      expect(screen.getByText('Add Late (23:00 - 06:00)')).toBeInTheDocument();
+      expect(screen.getByText('Add Weekend (08:00 - 20:00)')).toBeInTheDocument();
+      expect(screen.getByText('Remove Night (22:00 - 06:00)')).toBeInTheDocument();
+      expect(onImport).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Replace with 4 shifts'));
+
+      expect(onImport).toHaveBeenCalledWith([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+        { name: 'Afternoon', start: '14:00', end: '23:00' },
+        { name: 'Late', start: '23:00', end: '06:00' },
+        { name: 'Weekend', start: '08:00', end: '20:00' },
+      ]);
+      expect(screen.queryByLabelText('Import preview')).not.toBeInTheDocument();
+    });
+
+    it('should list every invalid row and not offer to replace the shifts', () => {
+      const onImport = jest.fn();
+      render(<ShiftImportExport shifts={shifts} onImport={onImport} />);
+
+      openImport('[{"name":"Late","start":"14:00","end":"25:00"},{"name":"","start":"06:00","end":"14:00"}]');
+
+      expect(screen.getByText('The shift plan cannot be imported')).toBeInTheDocument();
+      expect(screen.getByText(/Shift 1 \("Late"\): Invalid hour values/)).toBeInTheDocument();
+      expect(screen.getByText(/Shift 2: Shift name is required/)).toBeInTheDocument();
+      expect(screen.queryByText(/Replace with/)).not.toBeInTheDocument();
+    });
+
+    it('should report a CSV weekday that cannot be read', () => {
+      const onImport = jest.fn();
+      render(<ShiftImportExport shifts={shifts} onImport={onImport} />);
+
+      openImport('name,start,end,weekdays\nDay,06:00,18:00,Mon\nWeekend,08:00,16:00,Weekend');
+
+      expect(screen.getByText('The shift plan cannot be imported')).toBeInTheDocument();
+      expect(screen.getByText(/row 2 has an invalid weekday "Weekend"/)).toBeInTheDocument();
+      expect(screen.queryByLabelText('Import preview')).not.toBeInTheDocument();
+      expect(onImport).not.toHaveBeenCalled();
+    });
+
+    it('should warn when the plan was exported for another timezone', () => {
+      render(<ShiftImportExport shifts={shifts} timezone="UTC" onImport={jest.fn()} />);
+
+      openImport('{"timezone":"America/New_York","shifts":[{"name":"Day","start":"06:00","end":"18:00"}]}');
+
+      expect(screen.getByText('The plan was exported for America/New_York')).toBeInTheDocument();
+      expect(screen.getByText('Replace with 1 shift')).toBeInTheDocument();
+    });
+
+    it('should describe changes other than the times', () => {
+      render(<ShiftImportExport shifts={shifts} onImport={jest.fn()} />);
+
+      openImport('[{"name":"Night","start":"22:00","end":"06:00","dateOffset":-1}]');
+
+      expect(screen.getByText('Change Night: date offset, weekdays or breaks')).toBeInTheDocument();
+    });
+
+    it('should read a chosen file', async () => {
+      render(<ShiftImportExport shifts={shifts} onImport={jest.fn()} />);
+      fireEvent.click(screen.getByText('Import'));
+
+      const file = new File(['name,start,end\nDay,06:00,18:00'], 'shifts.csv', { type: 'text/csv' });
+      fireEvent.change(screen.getByLabelText('Import file'), { target: { files: [file] } });
+
+      await waitFor(() =>
+        expect(screen.getByLabelText('Shift plan to import')).toHaveValue('name,start,end\nDay,06:00,18:00')
+      );
+      fireEvent.click(screen.getByText('Preview'));
+      expect(screen.getByText('Add Day (06:00 - 18:00)')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Alert, Button, Icon, TextArea, useTheme2 } from '@grafana/ui';
+import { Shift } from '../types';
+import { formatShiftTimes } from '../timeLogic';
+import { formatShiftsCsv, formatShiftsJson, parseShiftPlan } from '../shiftSources';
+
+type ShiftChange =
+  | { type: 'added' | 'removed' | 'unchanged'; shift: Shift }
+  | { type: 'changed'; shift: Shift; before: Shift };
+
+// Drops defaults so that, e.g., a missing dateOffset and dateOffset 0 compare equal
+const normalize = (shift: Shift): string =>
+  JSON.stringify({
+    ...shift,
+    dateOffset: shift.dateOffset || undefined,
+    weekdays: shift.weekdays?.length ? shift.weekdays : undefined,
+    breaks: shift.breaks?.length ? shift.breaks : undefined,
+  });
+
+// Changes from the current list to the imported one, matched by shift name, in the order of the imported list
+const diffShifts = (current: Shift[], next: Shift[]): ShiftChange[] => {
+  const changes: ShiftChange[] = next.map((shift) => {
+    const before = current.find((s) => s.name === shift.name);
+    if (!before) {
+      return { type: 'added', shift };
+    }
+    return normalize(before) === normalize(shift) ? { type: 'unchanged', shift } : { type: 'changed', shift, before };
+  });
+  current
+    .filter((shift) => !next.some((s) => s.name === shift.name))
+    .forEach((shift) => changes.push({ type: 'removed', shift }));
+  return changes;
+};
+
+const describeChange = (change: ShiftChange): string => {
+  switch (change.type) {
+    case 'added':
+      return `Add ${change.shift.name} (${formatShiftTimes(change.shift)})`;
+    case 'removed':
+      return `Remove ${change.shift.name} (${formatShiftTimes(change.shift)})`;
+    case 'unchanged':
+      return `Keep ${change.shift.name} (${formatShiftTimes(change.shift)})`;
+    case 'changed': {
+      const before = formatShiftTimes(change.before);
+      const after = formatShiftTimes(change.shift);
+      return before === after
+        ? `Change ${change.shift.name}: date offset, weekdays or breaks`
+        : `Change ${change.shift.name}: ${before} → ${after}`;
+    }
+  }
+};
+
+// Starts a browser download of generated text
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download asynchronously, so the URL must outlive the click
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+interface Props {
+  shifts: Shift[];
+  timezone?: string;
+  onImport: (shifts: Shift[]) => void;
+}
+
+/**
+ * Export of the shift list as JSON or CSV, and import of a file or pasted text
+ * with validation and a preview of the changes before the list is replaced.
+ */
+export const ShiftImportExport: React.FC<Props> = ({ shifts, timezone, onImport }) => {
+  const theme = useTheme2();
+  const [importing, setImporting] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ shifts: Shift[]; timezone?: string } | null>(null);
+
+  const onPreview = () => {
+    try {
+      const plan = parseShiftPlan(text);
+      if (plan.shifts.length === 0) {
+        throw new Error('No shifts found in the imported text');
+      }
+      setPreview(plan);
+      setError(null);
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Invalid shift plan');
+    }
+  };
+
+  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = () => {
+        setText(String(reader.result ?? ''));
+        setPreview(null);
+      };
+      reader.readAsText(file);
+    }
+  };
+
+  const onClose = () => {
+    setImporting(false);
+    setText('');
+    setError(null);
+    setPreview(null);
+  };
+
+  const colors: Record<ShiftChange['type'], string> = {
+    added: theme.colors.success.text,
+    removed: theme.colors.error.text,
+    changed: theme.colors.warning.text,
+    unchanged: theme.colors.text.secondary,
+  };
+
+  return (
+    <div style={{ marginTop: '8px' }}>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="download-alt"
+          disabled={shifts.length === 0}
+          onClick={() => downloadFile(formatShiftsJson(shifts, timezone), 'shifts.json', 'application/json')}
+        >
+          Export JSON
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="download-alt"
+          disabled={shifts.length === 0}
+          onClick={() => downloadFile(formatShiftsCsv(shifts, timezone), 'shifts.csv', 'text/csv')}
+        >
+          Export CSV
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="upload"
+          onClick={() => (importing ? onClose() : setImporting(true))}
+        >
+          Import
+        </Button>
+      </div>
+
+      {importing && (
+        <div style={{ marginTop: '8px' }}>
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={onFileChange}
+            aria-label="Import file"
+          />
+          <TextArea
+            value={text}
+            onChange={(e) => {
+              setText(e.currentTarget.value);
+              setPreview(null);
+            }}
+            rows={6}
+            placeholder="Paste JSON or CSV (name,start,end,duration,dateOffset,weekdays,breaks), or choose a file"
+            aria-label="Shift plan to import"
+            style={{ marginTop: '8px' }}
+          />
+          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+            <Button size="sm" onClick={onPreview} disabled={!text.trim()}>
+              Preview
+            </Button>
+            <Button size="sm" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+          </div>
+
+          {error && (
+            <Alert title="The shift plan cannot be imported" severity="error" topSpacing={1}>
+              <div style={{ whiteSpace: 'pre-line' }}>{error}</div>
+            </Alert>
+          )}
+
+          {preview && (
+            <div
+              aria-label="Import preview"
+              style={{ marginTop: '8px', fontSize: theme.typography.bodySmall.fontSize }}
+            >
+              {preview.timezone && timezone && preview.timezone !== timezone && (
+                <Alert title={`The plan was exported for ${preview.timezone}`} severity="warning">
+                  This panel uses {timezone}. Imported times are read in the panel timezone.
+                </Alert>
+              )}
+              {diffShifts(shifts, preview.shifts).map((change, i) => (
+                <div key={i} style={{ color: colors[change.type] }}>
+                  <Icon
+                    name={
+                      change.type === 'added'
+                        ? 'plus'
+                        : change.type === 'removed'
+                        ? 'minus'
+                        : change.type === 'changed'
+                        ? 'pen'
+                        : 'check'
+                    }
+                  />{' '}
+                  {describeChange(change)}
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="destructive"
+                style={{ marginTop: '8px' }}
+                onClick={() => {
+                  onImport(preview.shifts);
+                  onClose();
+                }}
+              >
+                Replace with {preview.shifts.length} {preview.shifts.length === 1 ? 'shift' : 'shifts'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
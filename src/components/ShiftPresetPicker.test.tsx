@@ -0,0 +1,63 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ShiftPresetPicker } from './ShiftPresetPicker';
+
+describe('ShiftPresetPicker', () => {
+  it('should preview the selected preset before applying it', () => {
+    const onApply = jest.fn();
+    render(<ShiftPresetPicker shifts={[]} onApply={onApply} />);
+
+    fireEvent.click(screen.getByText('Use Preset'));
+    fireEvent.click(screen.getByLabelText('Hospital'));
+
+    const preview = screen.getByLabelText('Preset preview');
+    expect(within(preview).getByText('Evening')).toBeInTheDocument();
+    expect(preview).toHaveTextContent('Night: 23:00 - 07:00 (Every day)');
+    expect(screen.getByText('Every hour of the week is covered exactly once')).toBeInTheDocument();
+    expect(onApply).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Apply Preset'));
+
+    expect(onApply).toHaveBeenCalledWith([
+      { name: 'Day', start: '07:00', end: '15:00' },
+      { name: 'Evening', start: '15:00', end: '23:00' },
+      { name: 'Night', start: '23:00', end: '07:00' },
+    ]);
+    expect(screen.queryByLabelText('Shift presets')).not.toBeInTheDocument();
+  });
+
+  it('should show weekdays and date offsets in the preview', () => {
+    render(<ShiftPresetPicker shifts={[]} onApply={jest.fn()} />);
+
+    fireEvent.click(screen.getByText('Use Preset'));
+    fireEvent.click(screen.getByLabelText('3x8 (Mon-Fri)'));
+
+    expect(screen.getByLabelText('Preset preview')).toHaveTextContent(
+      'Night: 22:00 - 06:00 (Mon, Tue, Wed, Thu, Fri, starts the day before)'
+    );
+  });
+
+  it('should apply copies of the preset shifts', () => {
+    const onApply = jest.fn();
+    render(<ShiftPresetPicker shifts={[]} onApply={onApply} />);
+
+    fireEvent.click(screen.getByText('Use Preset'));
+    fireEvent.click(screen.getByLabelText('Follow-the-sun'));
+    fireEvent.click(screen.getByText('Apply Preset'));
+    onApply.mock.calls[0][0][0].weekdays.push(6);
+
+    expect(onApply.mock.calls[0][0][1].weekdays).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should warn that the current shifts are replaced and allow cancelling', () => {
+    const onApply = jest.fn();
+    render(<ShiftPresetPicker shifts={[{ name: 'Custom', start: '08:00', end: '16:00' }]} onApply={onApply} />);
+
+    fireEvent.click(screen.getByText('Use Preset'));
+    expect(screen.getByText('Applying the preset replaces the 1 current shift')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Cancel'));
+    expect(screen.getByText('Use Preset')).toBeInTheDocument();
+    expect(onApply).not.toHaveBeenCalled();
+  });
+});
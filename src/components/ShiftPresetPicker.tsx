@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Alert, Button, Field, RadioButtonGroup, useTheme2 } from '@grafana/ui';
+import { Shift } from '../types';
+import { formatShiftTimes } from '../timeLogic';
+import { SHIFT_PRESETS } from '../shiftPresets';
+import { CoverageTimeline } from './CoverageTimeline';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Schedule details of a preset shift, e.g. "Mon, Tue, starts the day before"
+const describeSchedule = (shift: Shift): string =>
+  [
+    shift.weekdays?.length ? shift.weekdays.map((day) => WEEKDAY_LABELS[day]).join(', ') : 'Every day',
+    shift.dateOffset === -1 && 'starts the day before',
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+interface Props {
+  shifts: Shift[];
+  onApply: (shifts: Shift[]) => void;
+}
+
+/**
+ * Picker replacing the shift list with a preset for a common industry pattern,
+ * previewing its shifts and coverage before it is applied.
+ */
+export const ShiftPresetPicker: React.FC<Props> = ({ shifts, onApply }) => {
+  const theme = useTheme2();
+  const [open, setOpen] = useState(false);
+  const [presetId, setPresetId] = useState<string>(SHIFT_PRESETS[0].id);
+  const preset = SHIFT_PRESETS.find((p) => p.id === presetId) ?? SHIFT_PRESETS[0];
+
+  if (!open) {
+    return (
+      <Button variant="secondary" icon="apps" onClick={() => setOpen(true)}>
+        Use Preset
+      </Button>
+    );
+  }
+
+  // Copies the preset so later edits cannot change the shared definitions
+  const onApplyPreset = () => {
+    onApply(preset.shifts.map((shift) => ({ ...shift, weekdays: shift.weekdays && [...shift.weekdays] })));
+    setOpen(false);
+  };
+
+  return (
+    <div
+      aria-label="Shift presets"
+      style={{
+        width: '100%',
+        padding: '8px',
+        border: `1px solid ${theme.colors.border.weak}`,
+        borderRadius: theme.shape.radius.default,
+      }}
+    >
+      <Field label="Preset" description={preset.description}>
+        <RadioButtonGroup
+          options={SHIFT_PRESETS.map((p) => ({ value: p.id, label: p.label }))}
+          value={presetId}
+          onChange={setPresetId}
+          size="sm"
+        />
+      </Field>
+
+      <div aria-label="Preset preview" style={{ fontSize: theme.typography.bodySmall.fontSize }}>
+        {preset.shifts.map((shift) => (
+          <div key={shift.name}>
+            <strong>{shift.name}</strong>: {formatShiftTimes(shift)} ({describeSchedule(shift)})
+          </div>
+        ))}
+      </div>
+      <CoverageTimeline shifts={preset.shifts} />
+
+      {shifts.length > 0 && (
+        <Alert
+          title={`Applying the preset replaces the ${shifts.length} current ${
+            shifts.length === 1 ? 'shift' : 'shifts'
+          }`}
+          severity="warning"
+          topSpacing={1}
+        />
+      )}
+      <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+        <Button size="sm" onClick={onApplyPreset}>
+          Apply Preset
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => setOpen(false)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { ShiftRangePreview } from './ShiftRangePreview';
+
+describe('ShiftRangePreview', () => {
+  const preview = () => screen.getByLabelText(/^Computed range of/);
+
+  it('should show the range in the business timezone and UTC with its duration', () => {
+    render(
+      <ShiftRangePreview
+        shift={{ name: 'Day', start: '06:00', end: '18:00' }}
+        timezone="America/New_York"
+        date="2025-07-01"
+      />
+    );
+
+    expect(preview()).toHaveTextContent(
+      'Tue 2025-07-01 06:00 → Tue 2025-07-01 18:00 America/New_York · Tue 2025-07-01 10:00 → Tue 2025-07-01 22:00 UTC · 12h'
+    );
+  });
+
+  it('should show multi-day durations', () => {
+    render(
+      <ShiftRangePreview
+        shift={{ name: 'On-call', start: '08:00', end: '', duration: '48:30' }}
+        timezone="UTC"
+        date="2025-07-01"
+      />
+    );
+
+    expect(preview()).toHaveTextContent('Tue 2025-07-01 08:00 → Thu 2025-07-03 08:30 UTC');
+    expect(preview()).toHaveTextContent('48h 30m');
+  });
+
+  it('should apply the DST policy and flag a DST change', () => {
+    render(
+      <ShiftRangePreview
+        shift={{ name: 'Night', start: '22:00', end: '06:00' }}
+        timezone="Europe/Berlin"
+        date="2025-03-29"
+        dstPolicy="duration"
+      />
+    );
+
+    expect(preview()).toHaveTextContent('Sat 2025-03-29 22:00 → Sun 2025-03-30 07:00 Europe/Berlin');
+    expect(preview()).toHaveTextContent('8h · crosses a DST change');
+  });
+
+  it('should mention weekdays the shift does not run on', () => {
+    render(
+      <ShiftRangePreview
+        shift={{ name: 'Weekday', start: '08:00', end: '16:00', weekdays: [1, 2, 3, 4, 5] }}
+        timezone="UTC"
+        date="2025-07-05"
+      />
+    );
+
+    expect(preview()).toHaveTextContent('not scheduled on Saturdays');
+  });
+
+  it('should show the error thrown by the calculation', () => {
+    render(<ShiftRangePreview shift={{ name: 'Night', start: '22:00', end: '' }} timezone="UTC" date="2025-07-01" />);
+
+    expect(preview()).toHaveTextContent(
+      'Invalid shift configuration: shift object must have a start time and an end time or duration'
+    );
+  });
+
+  it('should report an unknown timezone', () => {
+    render(
+      <ShiftRangePreview shift={{ name: 'Day', start: '06:00', end: '18:00' }} timezone="Mars/Base" date="2025-07-01" />
+    );
+
+    expect(preview()).not.toHaveTextContent('UTC ·');
+  });
+});
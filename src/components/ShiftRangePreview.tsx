@@ -0,0 +1,52 @@
+import React from 'react';
+import { Icon, useTheme2 } from '@grafana/ui';
+import dayjs from 'dayjs';
+import { DstPolicy, Shift } from '../types';
+import { formatDuration, getShiftDstInfo, getShiftTimeRange, isShiftScheduledOn } from '../timeLogic';
+
+const DATE_TIME_FORMAT = 'ddd YYYY-MM-DD HH:mm';
+
+interface Props {
+  shift: Shift;
+  timezone: string;
+  date: string;
+  dstPolicy?: DstPolicy;
+}
+
+/**
+ * Editor line showing the time range a shift resolves to on a sample date, in the business timezone
+ * and in UTC, with its duration. Errors from the calculation are shown in place of the range.
+ */
+export const ShiftRangePreview: React.FC<Props> = ({ shift, timezone, date, dstPolicy }) => {
+  const theme = useTheme2();
+  const style: React.CSSProperties = {
+    width: '100%',
+    fontSize: theme.typography.bodySmall.fontSize,
+    color: theme.colors.text.secondary,
+  };
+
+  let range: { from: number; to: number };
+  let crossesTransition: boolean;
+  try {
+    range = getShiftTimeRange(shift, timezone, date, dstPolicy);
+    crossesTransition = getShiftDstInfo(shift, timezone, date, dstPolicy).crossesTransition;
+  } catch (err) {
+    return (
+      <div style={{ ...style, color: theme.colors.error.text }} aria-label={`Computed range of ${shift.name}`}>
+        <Icon name="times-circle" /> {err instanceof Error ? err.message : String(err)}
+      </div>
+    );
+  }
+
+  const local = (epochMs: number) => dayjs(epochMs).tz(timezone).format(DATE_TIME_FORMAT);
+  const utc = (epochMs: number) => dayjs.utc(epochMs).format(DATE_TIME_FORMAT);
+
+  return (
+    <div style={style} aria-label={`Computed range of ${shift.name}`}>
+      <Icon name="clock-nine" /> {local(range.from)} → {local(range.to)} {timezone} · {utc(range.from)} →{' '}
+      {utc(range.to)} UTC · {formatDuration(range.to - range.from)}
+      {crossesTransition && ' · crosses a DST change'}
+      {!isShiftScheduledOn(shift, date) && ` · not scheduled on ${dayjs(date).format('dddd')}s`}
+    </div>
+  );
+};
@@ -125,6 +125,91 @@ describe('SimpleEditor', () => {
     });
   });
 
+  describe('Duration', () => {
+    it('should set the duration and derive the end time', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'On-call', start: '07:00', end: '15:00' }])} />);
+
+      fireEvent.change(screen.getByPlaceholderText('24:00'), { target: { value: '48:00' } });
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'On-call', start: '07:00', end: '07:00', duration: '48:00' }]);
+    });
+
+    it('should keep the end time following the start when a duration is set', () => {
+      render(
+        <SimpleEditor {...createMockProps([{ name: 'On-call', start: '07:00', end: '07:00', duration: '36:00' }])} />
+      );
+
+      expect(screen.getByDisplayValue('36:00')).toBeInTheDocument();
+      fireEvent.change(screen.getAllByDisplayValue('07:00')[0], { target: { value: '08:00' } });
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'On-call', start: '08:00', end: '20:00', duration: '36:00' }]);
+    });
+
+    it('should disable the end time while a duration is set', () => {
+      render(
+        <SimpleEditor {...createMockProps([{ name: 'On-call', start: '07:00', end: '19:00', duration: '12:00' }])} />
+      );
+
+      expect(screen.getByDisplayValue('19:00')).toBeDisabled();
+    });
+
+    it('should remove the duration when cleared', () => {
+      render(
+        <SimpleEditor {...createMockProps([{ name: 'On-call', start: '07:00', end: '07:00', duration: '48:00' }])} />
+      );
+
+      fireEvent.change(screen.getByDisplayValue('48:00'), { target: { value: '' } });
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'On-call', start: '07:00', end: '07:00' }]);
+    });
+  });
+
+  describe('Breaks', () => {
+    it('should add a break to a shift', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Day', start: '06:00', end: '14:00' }])} />);
+
+      fireEvent.click(screen.getByText('Add Break'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([
+        { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12:00', end: '12:30' }] },
+      ]);
+    });
+
+    it('should edit a break', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([
+            { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12:00', end: '12:30' }] },
+          ])}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('Break 1 end for Day'), { target: { value: '12:45' } });
+      fireEvent.change(screen.getByLabelText('Break 1 name for Day'), { target: { value: 'Lunch' } });
+
+      expect(mockOnChange).toHaveBeenNthCalledWith(1, [
+        { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12:00', end: '12:45' }] },
+      ]);
+      expect(mockOnChange).toHaveBeenNthCalledWith(2, [
+        { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12:00', end: '12:30', name: 'Lunch' }] },
+      ]);
+    });
+
+    it('should remove the breaks list together with its last break', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([
+            { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12:00', end: '12:30' }] },
+          ])}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Remove break 1 from Day'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'Day', start: '06:00', end: '14:00' }]);
+    });
+  });
+
   describe('Date Offset Controls', () => {
     const initialShifts: Shift[] = [
       { name: 'Night', start: '22:00', end: '06:00', dateOffset: 0 },
@@ -185,6 +270,56 @@ describe('SimpleEditor', () => {
     });
   });
 
+  describe('Weekday Selector', () => {
+    it('should show all weekdays as active when no weekdays are set', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Day', start: '08:00', end: '16:00' }])} />);
+
+      expect(screen.getByLabelText('Toggle Mon for Day')).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByLabelText('Toggle Sun for Day')).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should exclude a weekday when toggled off from the default', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Day', start: '08:00', end: '16:00' }])} />);
+
+      fireEvent.click(screen.getByLabelText('Toggle Sun for Day'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([
+        { name: 'Day', start: '08:00', end: '16:00', weekdays: [1, 2, 3, 4, 5, 6] },
+      ]);
+    });
+
+    it('should add a weekday when toggled on', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Weekend', start: '06:00', end: '18:00', weekdays: [6] }])} />);
+
+      expect(screen.getByLabelText('Toggle Sun for Weekend')).toHaveAttribute('aria-pressed', 'false');
+      fireEvent.click(screen.getByLabelText('Toggle Sun for Weekend'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'Weekend', start: '06:00', end: '18:00', weekdays: [0, 6] }]);
+    });
+
+    it('should keep the last selected day', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Weekend', start: '06:00', end: '18:00', weekdays: [6] }])} />);
+
+      const saturday = screen.getByLabelText('Toggle Sat for Weekend');
+      fireEvent.click(saturday);
+
+      expect(saturday).toHaveAttribute('aria-disabled', 'true');
+      expect(mockOnChange).not.toHaveBeenCalled();
+    });
+
+    it('should clear weekdays when every day is selected', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([{ name: 'Day', start: '08:00', end: '16:00', weekdays: [1, 2, 3, 4, 5, 6] }])}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Toggle Sun for Day'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'Day', start: '08:00', end: '16:00' }]);
+    });
+  });
+
   describe('Removing Shifts', () => {
     it('should remove shift when Remove button is clicked', () => {
       const shifts: Shift[] = [
@@ -304,4 +439,201 @@ describe('SimpleEditor', () => {
       ]);
     });
   });
+
+  describe('Reordering', () => {
+    const threeShifts: Shift[] = [
+      { name: 'Morning', start: '06:00', end: '14:00' },
+      { name: 'Afternoon', start: '14:00', end: '22:00' },
+      { name: 'Night', start: '22:00', end: '06:00' },
+    ];
+
+    it('should move a shift up and down', () => {
+      render(<SimpleEditor {...createMockProps(threeShifts)} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Move Night up' }));
+      expect(mockOnChange).toHaveBeenLastCalledWith([threeShifts[0], threeShifts[2], threeShifts[1]]);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Move Morning down' }));
+      expect(mockOnChange).toHaveBeenLastCalledWith([threeShifts[1], threeShifts[0], threeShifts[2]]);
+    });
+
+    it('should disable moving past the ends of the list', () => {
+      render(<SimpleEditor {...createMockProps(threeShifts)} />);
+
+      expect(screen.getByRole('button', { name: 'Move Morning up' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Move Night down' })).toBeDisabled();
+    });
+
+    it('should move a shift by drag and drop', () => {
+      render(<SimpleEditor {...createMockProps(threeShifts)} />);
+
+      fireEvent.dragStart(screen.getByLabelText('Drag to reorder Night'), { dataTransfer: {} });
+      fireEvent.dragOver(screen.getByDisplayValue('Morning'));
+      fireEvent.drop(screen.getByDisplayValue('Morning'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([threeShifts[2], threeShifts[0], threeShifts[1]]);
+    });
+
+    it('should keep focus on a field when its row moves', () => {
+      const { rerender } = render(<SimpleEditor {...createMockProps(threeShifts)} />);
+      const nightName = screen.getByDisplayValue('Night');
+      nightName.focus();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Move Night up' }));
+      rerender(<SimpleEditor {...createMockProps(mockOnChange.mock.calls[0][0])} />);
+
+      expect(screen.getByDisplayValue('Night')).toBe(nightName);
+      expect(nightName).toHaveFocus();
+    });
+
+    it('should duplicate a shift below itself with a unique name', () => {
+      const shifts: Shift[] = [
+        { name: 'Day', start: '06:00', end: '18:00', weekdays: [1, 2], breaks: [{ start: '12:00', end: '12:30' }] },
+        { name: 'Day (copy)', start: '07:00', end: '19:00' },
+      ];
+      render(<SimpleEditor {...createMockProps(shifts)} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Duplicate Day' }));
+
+      expect(mockOnChange).toHaveBeenCalledWith([shifts[0], { ...shifts[0], name: 'Day (copy 2)' }, shifts[1]]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should mask time input to HH:mm', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Morning', start: '06:00', end: '14:00' }])} />);
+
+      fireEvent.change(screen.getByDisplayValue('06:00'), { target: { value: '0730' } });
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'Morning', start: '07:30', end: '14:00' }]);
+    });
+
+    it('should drop characters other than digits and a colon', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Morning', start: '06:00', end: '14:00' }])} />);
+
+      fireEvent.change(screen.getByDisplayValue('14:00'), { target: { value: '1a5:3:0x' } });
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'Morning', start: '06:00', end: '15:30' }]);
+    });
+
+    it('should pad a single-digit hour when the field is left', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Morning', start: '6:00', end: '14:00' }])} />);
+
+      fireEvent.blur(screen.getByDisplayValue('6:00'));
+
+      expect(mockOnChange).toHaveBeenCalledWith([{ name: 'Morning', start: '06:00', end: '14:00' }]);
+    });
+
+    it('should not change valid times when the field is left', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Morning', start: '06:00', end: '14:00' }])} />);
+
+      fireEvent.blur(screen.getByDisplayValue('06:00'));
+
+      expect(mockOnChange).not.toHaveBeenCalled();
+    });
+
+    it('should flag invalid times on the field and above the list', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([
+            { name: 'Morning', start: '8:0', end: '14:00' },
+            { name: 'Late', start: '14:00', end: '25:00' },
+          ])}
+        />
+      );
+
+      expect(screen.getAllByText('Use HH:mm between 00:00 and 23:59')).toHaveLength(2);
+      expect(screen.getByText('2 shifts have invalid settings')).toBeInTheDocument();
+    });
+
+    it('should flag an invalid duration instead of the end time', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'On-call', start: '08:00', end: '', duration: '0:00' }])} />);
+
+      expect(screen.getByText('Use H:mm with a positive length, e.g. 48:00')).toBeInTheDocument();
+      expect(screen.queryByText('Use HH:mm between 00:00 and 23:59')).not.toBeInTheDocument();
+      expect(screen.getByText('1 shift has invalid settings')).toBeInTheDocument();
+    });
+
+    it('should flag invalid break times', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([
+            { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12:00', end: '1230' }] },
+          ])}
+        />
+      );
+
+      expect(screen.getByLabelText('Break 1 end for Day')).toHaveAttribute(
+        'title',
+        'Use HH:mm between 00:00 and 23:59'
+      );
+      expect(screen.getByText('1 shift has invalid settings')).toBeInTheDocument();
+    });
+
+    it('should warn about duplicate and missing names', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([
+            { name: 'Day', start: '06:00', end: '18:00' },
+            { name: 'Day ', start: '18:00', end: '06:00' },
+            { name: '', start: '06:00', end: '18:00' },
+          ])}
+        />
+      );
+
+      expect(
+        screen.getAllByText('Duplicate name: shifts need unique names to be highlighted when selected')
+      ).toHaveLength(2);
+      expect(screen.getByText('Duplicate shift names')).toBeInTheDocument();
+      expect(screen.getByText('Name is required')).toBeInTheDocument();
+    });
+
+    it('should not flag a valid configuration', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Day', start: '06:00', end: '18:00' }])} />);
+
+      expect(screen.queryByText(/invalid settings/)).not.toBeInTheDocument();
+      expect(screen.queryByText('Duplicate shift names')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Coverage Timeline', () => {
+    it('should show the coverage of the shifts under the shift list', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([
+            { name: 'Morning', start: '06:00', end: '14:00' },
+            { name: 'Afternoon', start: '14:15', end: '22:00' },
+          ])}
+        />
+      );
+
+      expect(screen.getByLabelText('Shift coverage')).toBeInTheDocument();
+      expect(screen.getByText('Gap: 14:00 - 14:15')).toBeInTheDocument();
+    });
+  });
+
+  describe('Computed Range Preview', () => {
+    it('should show the range of every shift on the preview date', () => {
+      render(
+        <SimpleEditor
+          {...createMockProps([{ name: 'Night', start: '22:00', end: '06:00', dateOffset: -1 }])}
+          context={{ options: { timezone: 'Europe/Berlin' } } as any}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText(/^Preview date/), { target: { value: '2025-01-15' } });
+
+      expect(screen.getByLabelText('Computed range of Night')).toHaveTextContent(
+        'Tue 2025-01-14 22:00 → Wed 2025-01-15 06:00 Europe/Berlin · Tue 2025-01-14 21:00 → Wed 2025-01-15 05:00 UTC · 8h'
+      );
+    });
+
+    it('should show calculation errors next to the row', () => {
+      render(<SimpleEditor {...createMockProps([{ name: 'Broken', start: '25:00', end: '06:00' }])} />);
+
+      expect(screen.getByLabelText('Computed range of Broken')).toHaveTextContent(
+        'Invalid hour values: hours must be between 0 and 23'
+      );
+    });
+  });
 });
@@ -1,18 +1,138 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { StandardEditorProps } from '@grafana/data';
-import { Field, Input, Button } from '@grafana/ui';
-import { Shift } from '../types';
+import { Field, Input, Button, Alert, Icon } from '@grafana/ui';
+import dayjs from 'dayjs';
+import { Shift, ShiftBreak, SimpleOptions } from '../types';
+import { getDurationEndTime, getProductionDate, parseDuration, validateShift } from '../timeLogic';
+import { CoverageTimeline } from './CoverageTimeline';
+import { ShiftImportExport } from './ShiftImportExport';
+import { CalendarExport } from './CalendarExport';
+import { ShiftPresetPicker } from './ShiftPresetPicker';
+import { ShiftRangePreview } from './ShiftRangePreview';
 
-export const SimpleEditor: React.FC<StandardEditorProps<Shift[]>> = ({ value, onChange }) => {
+// Weekday toggles in Monday-first order; values follow dayjs (0 = Sunday)
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+// Strict 24-hour "HH:mm" as stored by the editor
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const TIME_ERROR = 'Use HH:mm between 00:00 and 23:59';
+
+// Time input mask: keeps digits and one colon while typing, so "0800" becomes "08:00"
+export const maskTime = (value: string): string => {
+  const [hours, ...minutes] = value.replace(/[^\d:]/g, '').split(':');
+  if (minutes.length === 0) {
+    return hours.length > 2 ? `${hours.slice(0, 2)}:${hours.slice(2, 4)}` : hours;
+  }
+  return `${hours.slice(0, 2)}:${minutes.join('').slice(0, 2)}`;
+};
+
+// Pads a single-digit hour once the field is left, e.g. "8:00" becomes "08:00"; other values are left alone
+export const onTimeBlur = (value: string, apply: (time: string) => void) => {
+  if (/^\d:\d{2}$/.test(value)) {
+    apply(`0${value}`);
+  }
+};
+
+// Per-field problems of a shift row; duplicate names break the selection highlighting in the panel
+const getFieldErrors = (shift: Shift, shifts: Shift[]) => ({
+  name: !shift.name.trim()
+    ? 'Name is required'
+    : shifts.filter((s) => s.name.trim() === shift.name.trim()).length > 1
+    ? 'Duplicate name: shifts need unique names to be highlighted when selected'
+    : undefined,
+  start: TIME_PATTERN.test(shift.start) ? undefined : TIME_ERROR,
+  end: shift.duration || TIME_PATTERN.test(shift.end) ? undefined : TIME_ERROR,
+  duration:
+    shift.duration && parseDuration(shift.duration) === null
+      ? 'Use H:mm with a positive length, e.g. 48:00'
+      : undefined,
+});
+
+export const SimpleEditor: React.FC<StandardEditorProps<Shift[], unknown, SimpleOptions>> = ({
+  value,
+  onChange,
+  context,
+}) => {
   const shifts = value || [];
 
+  // Stable row keys, moved along with their shifts so focus and in-progress edits survive a reorder.
+  // Lists replaced from outside (e.g., undo) only gain or lose keys at the end.
+  const nextKey = useRef(0);
+  const rowKeys = useRef<number[]>([]);
+  while (rowKeys.current.length < shifts.length) {
+    rowKeys.current.push(nextKey.current++);
+  }
+  rowKeys.current.length = shifts.length;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Sample date for the computed range under each row, the current production day by default
+  const timezone = context?.options?.timezone || 'Europe/Warsaw';
+  const [previewDate, setPreviewDate] = useState(() => {
+    try {
+      return getProductionDate(timezone, context?.options?.productionDayStart);
+    } catch {
+      return dayjs().format('YYYY-MM-DD');
+    }
+  });
+
+  // Rows the panel would reject, flagged above the list so an invalid configuration is not saved unnoticed
+  const fieldErrors = shifts.map((shift) => getFieldErrors(shift, shifts));
+  const invalidCount = shifts.filter(
+    (shift, index) =>
+      validateShift(shift) !== null ||
+      Object.entries(fieldErrors[index]).some(([field, error]) => field !== 'name' && error) ||
+      (shift.breaks ?? []).some((b) => !TIME_PATTERN.test(b.start) || !TIME_PATTERN.test(b.end))
+  ).length;
+  const hasDuplicates = fieldErrors.some((errors) => errors.name?.startsWith('Duplicate'));
+
   // Helper to update a specific shift
+  // With a duration, the end time follows start + duration so labels elsewhere stay meaningful
   const onShiftChange = (index: number, updatedShift: Shift) => {
     const newShifts = [...shifts];
-    newShifts[index] = updatedShift;
+    newShifts[index] = updatedShift.duration
+      ? { ...updatedShift, end: getDurationEndTime(updatedShift.start, updatedShift.duration) ?? updatedShift.end }
+      : updatedShift;
     onChange(newShifts);
   };
 
+  // Helper to toggle a weekday; a shift without weekdays runs every day, so the last day cannot be turned off
+  const onWeekdayToggle = (index: number, weekday: number) => {
+    const shift = shifts[index];
+    const current = shift.weekdays?.length ? shift.weekdays : WEEKDAYS.map((d) => d.value);
+    const weekdays = current.includes(weekday) ? current.filter((d) => d !== weekday) : [...current, weekday];
+    if (weekdays.length === 0) {
+      return;
+    }
+    const { weekdays: _previous, ...rest } = shift;
+
+    // Store nothing when all days are selected to keep the default "every day"
+    if (weekdays.length === WEEKDAYS.length) {
+      onShiftChange(index, rest);
+    } else {
+      onShiftChange(index, { ...rest, weekdays: weekdays.sort((a, b) => a - b) });
+    }
+  };
+
+  // Helper to set or clear the duration
+  const onDurationChange = (index: number, duration: string) => {
+    const { duration: _previous, ...shift } = shifts[index];
+    onShiftChange(index, duration ? { ...shift, duration } : shift);
+  };
+
+  // Helper to add, update or remove a break; an empty list is not stored
+  const onBreaksChange = (index: number, breaks: ShiftBreak[]) => {
+    const { breaks: _previous, ...shift } = shifts[index];
+    onShiftChange(index, breaks.length > 0 ? { ...shift, breaks } : shift);
+  };
+
   // Helper to add a new, empty shift
   const onAddShift = () => {
     const newShifts = [...shifts, { name: 'New Shift', start: '08:00', end: '16:00', dateOffset: 0 }];
@@ -23,36 +143,166 @@ export const SimpleEditor: React.FC<StandardEditorProps<Shift[]>> = ({ value, on
   const onRemoveShift = (index: number) => {
     const newShifts = [...shifts];
     newShifts.splice(index, 1);
+    rowKeys.current.splice(index, 1);
+    onChange(newShifts);
+  };
+
+  // Helper to move a shift to another position, used by the arrows and drag and drop
+  const onMoveShift = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= shifts.length) {
+      return;
+    }
+    const newShifts = [...shifts];
+    newShifts.splice(to, 0, ...newShifts.splice(from, 1));
+    rowKeys.current.splice(to, 0, ...rowKeys.current.splice(from, 1));
+    onChange(newShifts);
+  };
+
+  // Helper to insert a copy of a shift below it, renamed so selection highlighting keeps working
+  const onDuplicateShift = (index: number) => {
+    const names = shifts.map((s) => s.name);
+    let name = `${shifts[index].name} (copy)`;
+    for (let n = 2; names.includes(name); n++) {
+      name = `${shifts[index].name} (copy ${n})`;
+    }
+    const newShifts = [...shifts];
+    newShifts.splice(index + 1, 0, { ...shifts[index], name });
+    rowKeys.current.splice(index + 1, 0, nextKey.current++);
     onChange(newShifts);
   };
 
   return (
     <div>
+      {invalidCount > 0 && (
+        <Alert
+          title={`${invalidCount} ${invalidCount === 1 ? 'shift has' : 'shifts have'} invalid settings`}
+          severity="error"
+        >
+          Viewers get an error when they select an invalid shift. Fix the highlighted fields before saving.
+        </Alert>
+      )}
+      {hasDuplicates && (
+        <Alert title="Duplicate shift names" severity="warning">
+          Shifts sharing a name are highlighted together in the panel. Give every shift a unique name.
+        </Alert>
+      )}
+      {shifts.length > 0 && (
+        <Field
+          label="Preview date"
+          description={`Date used for the time range shown under each shift, in ${timezone} and UTC`}
+          htmlFor="shift-preview-date"
+        >
+          <Input
+            id="shift-preview-date"
+            type="date"
+            value={previewDate}
+            onChange={(e) => setPreviewDate(e.currentTarget.value)}
+            width={20}
+          />
+        </Field>
+      )}
       <Field label="" description="">
         <div>
           {shifts.map((shift, index) => (
-            <div key={index} style={{ display: 'flex', gap: '8px', marginBottom: '8px', alignItems: 'flex-end' }}>
-              <Field label="Name">
+            <div
+              key={rowKeys.current[index]}
+              style={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: '8px',
+                marginBottom: '8px',
+                alignItems: 'flex-end',
+                opacity: dragIndex === index ? 0.5 : 1,
+              }}
+              onDragOver={(e) => {
+                if (dragIndex !== null) {
+                  e.preventDefault();
+                }
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null) {
+                  onMoveShift(dragIndex, index);
+                }
+                setDragIndex(null);
+              }}
+            >
+              <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '2px' }}>
+                <span
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragIndex(index);
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
+                  style={{ cursor: 'grab' }}
+                  title="Drag to reorder"
+                  aria-label={`Drag to reorder ${shift.name}`}
+                >
+                  <Icon name="draggabledots" />
+                </span>
+                <Button
+                  icon="arrow-up"
+                  variant="secondary"
+                  size="sm"
+                  fill="text"
+                  onClick={() => onMoveShift(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${shift.name} up`}
+                />
+                <Button
+                  icon="arrow-down"
+                  variant="secondary"
+                  size="sm"
+                  fill="text"
+                  onClick={() => onMoveShift(index, index + 1)}
+                  disabled={index === shifts.length - 1}
+                  aria-label={`Move ${shift.name} down`}
+                />
+              </div>
+              <Field label="Name" invalid={!!fieldErrors[index].name} error={fieldErrors[index].name}>
                 <Input
                   value={shift.name}
                   onChange={(e) => onShiftChange(index, { ...shift, name: e.currentTarget.value })}
                   width={20}
                 />
               </Field>
-              <Field label="Start (HH:mm)">
+              <Field label="Start (HH:mm)" invalid={!!fieldErrors[index].start} error={fieldErrors[index].start}>
                 <Input
                   value={shift.start}
-                  onChange={(e) => onShiftChange(index, { ...shift, start: e.currentTarget.value })}
+                  onChange={(e) => onShiftChange(index, { ...shift, start: maskTime(e.currentTarget.value) })}
+                  onBlur={(e) =>
+                    onTimeBlur(e.currentTarget.value, (start) => onShiftChange(index, { ...shift, start }))
+                  }
                   width={15}
                   placeholder="08:00"
+                  inputMode="numeric"
+                  maxLength={5}
                 />
               </Field>
-              <Field label="End (HH:mm)">
+              <Field label="End (HH:mm)" invalid={!!fieldErrors[index].end} error={fieldErrors[index].end}>
                 <Input
                   value={shift.end}
-                  onChange={(e) => onShiftChange(index, { ...shift, end: e.currentTarget.value })}
+                  onChange={(e) => onShiftChange(index, { ...shift, end: maskTime(e.currentTarget.value) })}
+                  onBlur={(e) => onTimeBlur(e.currentTarget.value, (end) => onShiftChange(index, { ...shift, end }))}
                   width={15}
                   placeholder="16:00"
+                  inputMode="numeric"
+                  maxLength={5}
+                  disabled={!!shift.duration}
+                />
+              </Field>
+              <Field
+                label="Duration (H:mm)"
+                description="Optional, overrides end (e.g., 48:00)"
+                invalid={!!fieldErrors[index].duration}
+                error={fieldErrors[index].duration}
+              >
+                <Input
+                  value={shift.duration ?? ''}
+                  onChange={(e) => onDurationChange(index, e.currentTarget.value)}
+                  width={12}
+                  placeholder="24:00"
                 />
               </Field>
               <Field label="Date Offset (days)" description="Days to add/subtract from selected date">
@@ -85,14 +335,124 @@ export const SimpleEditor: React.FC<StandardEditorProps<Shift[]>> = ({ value, on
                   />
                 </div>
               </Field>
+              <Field label="Weekdays" description="Days of the week the shift runs on">
+                <div style={{ display: 'flex', gap: '2px' }}>
+                  {WEEKDAYS.map((day) => {
+                    const isActive = !shift.weekdays?.length || shift.weekdays.includes(day.value);
+                    const isLastDay = isActive && shift.weekdays?.length === 1;
+                    return (
+                      <Button
+                        key={day.value}
+                        variant={isActive ? 'primary' : 'secondary'}
+                        size="sm"
+                        fill={isActive ? 'solid' : 'outline'}
+                        onClick={() => onWeekdayToggle(index, day.value)}
+                        disabled={isLastDay}
+                        tooltip={isLastDay ? 'A shift runs on at least one day' : undefined}
+                        aria-pressed={isActive}
+                        aria-label={`Toggle ${day.label} for ${shift.name}`}
+                      >
+                        {day.label}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </Field>
+              <Field label="Breaks" description="Excluded from net working time">
+                <div>
+                  {(shift.breaks ?? []).map((b, breakIndex) => {
+                    const breaks = shift.breaks ?? [];
+                    const onBreakChange = (updated: ShiftBreak) =>
+                      onBreaksChange(
+                        index,
+                        breaks.map((existing, i) => (i === breakIndex ? updated : existing))
+                      );
+                    return (
+                      <div key={breakIndex} style={{ display: 'flex', gap: '4px', marginBottom: '4px' }}>
+                        <Input
+                          value={b.name ?? ''}
+                          onChange={(e) => onBreakChange({ ...b, name: e.currentTarget.value || undefined })}
+                          width={12}
+                          placeholder="Lunch"
+                          aria-label={`Break ${breakIndex + 1} name for ${shift.name}`}
+                        />
+                        <Input
+                          value={b.start}
+                          onChange={(e) => onBreakChange({ ...b, start: maskTime(e.currentTarget.value) })}
+                          onBlur={(e) => onTimeBlur(e.currentTarget.value, (start) => onBreakChange({ ...b, start }))}
+                          invalid={!TIME_PATTERN.test(b.start)}
+                          title={TIME_PATTERN.test(b.start) ? undefined : TIME_ERROR}
+                          maxLength={5}
+                          width={8}
+                          placeholder="12:00"
+                          aria-label={`Break ${breakIndex + 1} start for ${shift.name}`}
+                        />
+                        <Input
+                          value={b.end}
+                          onChange={(e) => onBreakChange({ ...b, end: maskTime(e.currentTarget.value) })}
+                          onBlur={(e) => onTimeBlur(e.currentTarget.value, (end) => onBreakChange({ ...b, end }))}
+                          invalid={!TIME_PATTERN.test(b.end)}
+                          title={TIME_PATTERN.test(b.end) ? undefined : TIME_ERROR}
+                          maxLength={5}
+                          width={8}
+                          placeholder="12:30"
+                          aria-label={`Break ${breakIndex + 1} end for ${shift.name}`}
+                        />
+                        <Button
+                          icon="trash-alt"
+                          variant="secondary"
+                          size="sm"
+                          onClick={() =>
+                            onBreaksChange(
+                              index,
+                              breaks.filter((_, i) => i !== breakIndex)
+                            )
+                          }
+                          aria-label={`Remove break ${breakIndex + 1} from ${shift.name}`}
+                        />
+                      </div>
+                    );
+                  })}
+                  <Button
+                    icon="plus"
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => onBreaksChange(index, [...(shift.breaks ?? []), { start: '12:00', end: '12:30' }])}
+                  >
+                    Add Break
+                  </Button>
+                </div>
+              </Field>
+              <Button
+                icon="copy"
+                variant="secondary"
+                size="md"
+                onClick={() => onDuplicateShift(index)}
+                aria-label={`Duplicate ${shift.name}`}
+                title="Duplicate"
+              />
               <Button variant="destructive" size="md" onClick={() => onRemoveShift(index)}>
                 Remove
               </Button>
+              {previewDate && (
+                <ShiftRangePreview
+                  shift={shift}
+                  timezone={timezone}
+                  date={previewDate}
+                  dstPolicy={context?.options?.dstPolicy}
+                />
+              )}
             </div>
           ))}
-          <Button variant="secondary" icon="plus" onClick={onAddShift}>
-            Add Shift
-          </Button>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+            <Button variant="secondary" icon="plus" onClick={onAddShift}>
+              Add Shift
+            </Button>
+            <ShiftPresetPicker shifts={shifts} onApply={onChange} />
+          </div>
+          <ShiftImportExport shifts={shifts} timezone={context?.options?.timezone} onImport={onChange} />
+          <CalendarExport shifts={shifts} options={context?.options} />
+          <CoverageTimeline shifts={shifts} />
         </div>
       </Field>
     </div>
@@ -1,11 +1,24 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { SimplePanel } from './SimplePanel';
 import { createMockPanelProps } from '../test-utils';
-import { Shift } from '../types';
+import { Shift, SimpleOptions } from '../types';
+import { locationService } from '@grafana/runtime';
+import { FieldType, toDataFrame } from '@grafana/data';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+jest.mock('@grafana/runtime', () => ({
+  locationService: { partial: jest.fn(), getSearchObject: jest.fn(() => ({})) },
+}));
 
 // Mock the timeLogic module
 jest.mock('../timeLogic', () => ({
+  ...jest.requireActual('../timeLogic'),
   getShiftTimeRange: jest.fn((shift, timezone, selectedDate) => ({
     from: new Date(`${selectedDate} ${shift.start}`).getTime(),
     to: new Date(`${selectedDate} ${shift.end}`).getTime(),
@@ -136,12 +149,30 @@ describe('SimplePanel', () => {
     });
   });
 
-  describe('Dropdown Display Mode', () => {
-    it('should render dropdown when displayMode is dropdown', () => {
+  describe('Multi-day Shifts', () => {
+    it('should label shifts longer than 24 hours with their end day', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: [{ name: 'On-call', start: '07:00', end: '07:00', duration: '48:00' }],
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      expect(screen.getByText('07:00 - 07:00 (+2d)')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /On-call/i })).toHaveAttribute('title', 'On-call: 07:00 - 07:00 (+2d)');
+    });
+  });
+
+  describe('DST Transitions', () => {
+    it('should show a warning badge with the real duration on transition nights', () => {
       const props = createMockPanelProps({
         options: {
           shifts: mockShifts,
-          displayMode: 'dropdown',
+          displayMode: 'buttons',
           showDatePicker: true,
           timezone: 'Europe/Warsaw',
         },
@@ -149,100 +180,1350 @@ describe('SimplePanel', () => {
 
       render(<SimplePanel {...props} />);
 
-      expect(screen.getByText('Select a shift...')).toBeInTheDocument();
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-03-29' } });
+
+      const nightButton = screen.getByRole('button', { name: /Night/i });
+      expect(nightButton).toHaveTextContent('DST');
+      expect(nightButton).toHaveAttribute('title', 'Night: 22:00 - 06:00 · DST transition: actual duration 7h');
+      expect(screen.getByRole('button', { name: /Morning/i })).not.toHaveTextContent('DST');
     });
 
-    it('should show shift options in dropdown format', () => {
+    it('should pass the configured DST policy to the time range calculation', () => {
+      const { getShiftTimeRange } = require('../timeLogic');
       const props = createMockPanelProps({
         options: {
           shifts: mockShifts,
-          displayMode: 'dropdown',
+          displayMode: 'buttons',
           showDatePicker: true,
           timezone: 'Europe/Warsaw',
+          dstPolicy: 'duration',
         },
       });
 
       render(<SimplePanel {...props} />);
+      fireEvent.click(screen.getByRole('button', { name: /Night/i }));
 
-      // Dropdown should contain placeholder text
-      expect(screen.getByText('Select a shift...')).toBeInTheDocument();
+      expect(getShiftTimeRange).toHaveBeenCalledWith(mockShifts[2], 'Europe/Warsaw', expect.any(String), 'duration');
     });
   });
 
-  describe('Date Picker', () => {
-    it('should render date picker when showDatePicker is true', () => {
+  describe('Breaks', () => {
+    const shiftsWithBreaks: Shift[] = [
+      { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12:00', end: '12:30', name: 'Lunch' }] },
+      { name: 'Night', start: '22:00', end: '06:00' },
+    ];
+
+    it('should show net and gross working time in the tooltip of shifts with breaks', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: shiftsWithBreaks,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'UTC',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      expect(screen.getByRole('button', { name: /^Day/ })).toHaveAttribute(
+        'title',
+        'Day: 06:00 - 14:00 · Net 7h 30m / Gross 8h'
+      );
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('title', 'Night: 22:00 - 06:00');
+    });
+
+    it('should publish the breaks of the selected shift to the configured variable', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: shiftsWithBreaks,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'UTC',
+          breaksVariable: 'breaks',
+          breaksVariableFormat: 'sql',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-01-15' } });
+      fireEvent.click(screen.getByRole('button', { name: /^Day/ }));
+
+      expect(locationService.partial).toHaveBeenCalledWith(
+        { 'var-breaks': "time NOT BETWEEN '2025-01-15 12:00:00' AND '2025-01-15 12:30:00'" },
+        true
+      );
+    });
+
+    it('should not touch dashboard variables when no breaks variable is configured', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: shiftsWithBreaks,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'UTC',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+      fireEvent.click(screen.getByRole('button', { name: /^Day/ }));
+
+      expect(props.onChangeTimeRange).toHaveBeenCalled();
+      expect(locationService.partial).not.toHaveBeenCalledWith(
+        expect.objectContaining({ 'var-breaks': expect.anything() }),
+        true
+      );
+    });
+  });
+
+  describe('Full Day', () => {
+    it('should not offer a full day entry by default', () => {
+      const props = createMockPanelProps({
+        options: { shifts: mockShifts, displayMode: 'buttons', showDatePicker: true, timezone: 'Europe/Warsaw' },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      expect(screen.queryByRole('button', { name: /Full day/i })).not.toBeInTheDocument();
+    });
+
+    it('should select the envelope of all shifts of the date', () => {
       const props = createMockPanelProps({
         options: {
           shifts: mockShifts,
           displayMode: 'buttons',
           showDatePicker: true,
           timezone: 'Europe/Warsaw',
+          showFullDay: true,
         },
       });
 
       render(<SimplePanel {...props} />);
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-01-15' } });
 
-      const dateInput = screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/);
-      expect(dateInput).toBeInTheDocument();
+      const fullDayButton = screen.getByRole('button', { name: /Full day/i });
+      expect(fullDayButton).toHaveTextContent('06:00 - 06:00 (+1d)');
+
+      fireEvent.click(fullDayButton);
+
+      expect(props.onChangeTimeRange).toHaveBeenCalledWith({
+        from: Date.UTC(2025, 0, 15, 5, 0),
+        to: Date.UTC(2025, 0, 16, 5, 0),
+      });
+      expect(fullDayButton).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'false');
     });
 
-    it('should not render date picker when showDatePicker is false', () => {
+    it('should clear the full day selection when a shift is selected', () => {
       const props = createMockPanelProps({
         options: {
           shifts: mockShifts,
           displayMode: 'buttons',
-          showDatePicker: false,
+          showDatePicker: true,
           timezone: 'Europe/Warsaw',
+          showFullDay: true,
         },
       });
 
       render(<SimplePanel {...props} />);
+      fireEvent.click(screen.getByRole('button', { name: /Full day/i }));
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
 
-      const dateInputs = screen.queryAllByDisplayValue(/\d{4}-\d{2}-\d{2}/);
-      expect(dateInputs.length).toBe(0);
+      expect(screen.getByRole('button', { name: /Full day/i })).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  describe('Auto-select on Load', () => {
+    beforeEach(() => {
+      // 02:00 in Warsaw on 2025-01-16, during the night shift of the 15th
+      jest.useFakeTimers({ now: new Date('2025-01-16T01:00:00Z') });
     });
 
-    it('should render Today button', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const renderPanel = (options: Partial<SimpleOptions>) => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          productionDayStart: '06:00',
+          ...options,
+        },
+      });
+      render(<SimplePanel {...props} />);
+      return props;
+    };
+
+    it('should not select anything by default', () => {
+      const props = renderPanel({});
+
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('should select the running shift', () => {
+      const { getShiftTimeRange } = require('../timeLogic');
+      const props = renderPanel({ autoSelect: 'current' });
+
+      expect(getShiftTimeRange).toHaveBeenCalledWith(mockShifts[2], 'Europe/Warsaw', '2025-01-15', 'earlier');
+      expect(props.onChangeTimeRange).toHaveBeenCalledTimes(1);
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-01-15')).toBeInTheDocument();
+    });
+
+    it('should select the previous shift', () => {
+      const { getShiftTimeRange } = require('../timeLogic');
+      renderPanel({ autoSelect: 'previous' });
+
+      expect(getShiftTimeRange).toHaveBeenCalledWith(mockShifts[1], 'Europe/Warsaw', '2025-01-15', 'earlier');
+      expect(screen.getByRole('button', { name: /Afternoon/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should mark the running shift', () => {
+      renderPanel({});
+
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveTextContent('Now');
+      expect(screen.getByRole('button', { name: /Morning/i })).not.toHaveTextContent('Now');
+    });
+
+    it('should not mark shifts on other dates', () => {
+      renderPanel({});
+      fireEvent.change(screen.getByDisplayValue('2025-01-15'), { target: { value: '2025-01-14' } });
+
+      expect(screen.getByRole('button', { name: /Night/i })).not.toHaveTextContent('Now');
+    });
+
+    it('should select a running shift of the previous production day', () => {
+      renderPanel({ autoSelect: 'current', productionDayStart: '00:00' });
+
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-01-15')).toBeInTheDocument();
+    });
+
+    it('should mark a running shift of the previous production day on its own date', () => {
+      renderPanel({ productionDayStart: '00:00' });
+
+      expect(screen.getByRole('button', { name: /Night/i })).not.toHaveTextContent('Now');
+
+      fireEvent.change(screen.getByDisplayValue('2025-01-16'), { target: { value: '2025-01-15' } });
+
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveTextContent('Now');
+    });
+
+    it('should select the running shift when another shift is misconfigured', () => {
+      renderPanel({
+        autoSelect: 'current',
+        exceptions: [{ date: '2025-01-14', type: 'add', shift: 'Overtime' }],
+      });
+
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should mark the running shift in dropdown mode', () => {
+      renderPanel({ displayMode: 'dropdown', autoSelect: 'current' });
+
+      expect(screen.getByText('Night (22:00 - 06:00) · Now')).toBeInTheDocument();
+    });
+  });
+
+  describe('Shift-to-date', () => {
+    // Same local times the mocked getShiftTimeRange produces
+    const morning = {
+      from: new Date('2025-01-15 06:00').getTime(),
+      to: new Date('2025-01-15 14:00').getTime(),
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2025-01-15 10:00') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const renderPanel = (shiftToDate: boolean) => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          shiftToDate,
+        },
+      });
+      render(<SimplePanel {...props} />);
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-01-15' } });
+      return props;
+    };
+
+    it('should select the running shift up to now', () => {
+      const props = renderPanel(true);
+
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+
+      expect(locationService.partial).toHaveBeenCalledWith({ from: String(morning.from), to: 'now' });
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+    });
+
+    it('should switch to the absolute range when the shift ends', () => {
+      const props = renderPanel(true);
+
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+      jest.advanceTimersByTime(morning.to - morning.from);
+
+      expect(props.onChangeTimeRange).toHaveBeenCalledWith(morning);
+    });
+
+    it('should keep absolute ranges for shifts that are not running', () => {
+      const props = renderPanel(true);
+
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+      fireEvent.click(screen.getByRole('button', { name: /Afternoon/i }));
+      jest.advanceTimersByTime(morning.to - morning.from);
+
+      expect(props.onChangeTimeRange).toHaveBeenCalledTimes(1);
+      expect(props.onChangeTimeRange).toHaveBeenCalledWith({
+        from: new Date('2025-01-15 14:00').getTime(),
+        to: new Date('2025-01-15 22:00').getTime(),
+      });
+    });
+
+    it('should not switch to the absolute range after another date is picked', () => {
+      const props = renderPanel(true);
+
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+      fireEvent.change(screen.getByDisplayValue('2025-01-15'), { target: { value: '2025-01-14' } });
+      jest.advanceTimersByTime(morning.to - morning.from);
+
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+    });
+
+    it('should not switch to the absolute range after the dashboard range changes', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          shiftToDate: true,
+        },
+      });
+      const { rerender } = render(<SimplePanel {...props} />);
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-01-15' } });
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+
+      // The dashboard follows the shift-to-date range, then the user picks "Last 6 hours"
+      const raw = { from: String(morning.from), to: 'now' };
+      rerender(<SimplePanel {...props} timeRange={{ from: dayjs(morning.from), to: dayjs(), raw } as any} />);
+      const lastHours = { from: 'now-6h', to: 'now' };
+      rerender(
+        <SimplePanel {...props} timeRange={{ from: dayjs().subtract(6, 'hour'), to: dayjs(), raw: lastHours } as any} />
+      );
+      jest.advanceTimersByTime(morning.to - morning.from);
+
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+    });
+
+    it('should switch a range restored from a link to the absolute range when the shift ends', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-1': 'Morning',
+        'shiftDate-1': '2025-01-15',
+      });
+      const raw = { from: String(morning.from), to: 'now' };
       const props = createMockPanelProps({
         options: {
           shifts: mockShifts,
           displayMode: 'buttons',
           showDatePicker: true,
           timezone: 'Europe/Warsaw',
+          shiftToDate: true,
         },
+        timeRange: { from: dayjs(morning.from), to: dayjs(), raw } as any,
       });
+      render(<SimplePanel {...props} />);
+
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(morning.to - Date.now());
+
+      expect(props.onChangeTimeRange).toHaveBeenCalledWith(morning);
+    });
 
+    it('should apply the absolute range at once when a restored shift has already ended', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-1': 'Morning',
+        'shiftDate-1': '2025-01-14',
+      });
+      const from = new Date('2025-01-14 06:00').getTime();
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          shiftToDate: true,
+        },
+        timeRange: { from: dayjs(from), to: dayjs(), raw: { from: String(from), to: 'now' } } as any,
+      });
       render(<SimplePanel {...props} />);
 
-      expect(screen.getByRole('button', { name: /Today/i })).toBeInTheDocument();
+      expect(props.onChangeTimeRange).toHaveBeenCalledWith({ from, to: new Date('2025-01-14 14:00').getTime() });
     });
 
-    it('should reset date to today when Today button is clicked', async () => {
+    it('should use absolute ranges when disabled', () => {
+      const props = renderPanel(false);
+
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+
+      expect(props.onChangeTimeRange).toHaveBeenCalledWith(morning);
+      expect(locationService.partial).not.toHaveBeenCalledWith(expect.objectContaining({ to: 'now' }));
+    });
+  });
+
+  describe('Previous/Next Navigation', () => {
+    const renderPanel = (options: Partial<SimpleOptions> = {}) => {
       const props = createMockPanelProps({
         options: {
           shifts: mockShifts,
           displayMode: 'buttons',
           showDatePicker: true,
           timezone: 'Europe/Warsaw',
+          showNavigation: true,
+          ...options,
         },
       });
+      render(<SimplePanel {...props} />);
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-01-15' } });
+      return props;
+    };
+
+    it('should hide the arrows by default', () => {
+      renderPanel({ showNavigation: false });
+
+      expect(screen.queryByRole('button', { name: 'Next shift' })).not.toBeInTheDocument();
+    });
+
+    it('should move to the next shift across the date boundary', () => {
+      const { getShiftTimeRange } = require('../timeLogic');
+      const props = renderPanel();
+
+      fireEvent.click(screen.getByRole('button', { name: /Night/i }));
+      fireEvent.click(screen.getByRole('button', { name: 'Next shift' }));
+
+      expect(getShiftTimeRange).toHaveBeenLastCalledWith(mockShifts[0], 'Europe/Warsaw', '2025-01-16', 'earlier');
+      expect(props.onChangeTimeRange).toHaveBeenCalledTimes(2);
+      expect(screen.getByDisplayValue('2025-01-16')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should move to the previous shift across the date boundary', () => {
+      renderPanel();
+
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+      fireEvent.click(screen.getByRole('button', { name: 'Previous shift' }));
+
+      expect(screen.getByDisplayValue('2025-01-14')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should show the target shift in the arrow tooltip', () => {
+      renderPanel();
+
+      expect(screen.getByRole('button', { name: 'Next shift' })).toHaveAttribute(
+        'title',
+        'Next shift: Morning, 2025-01-15 (→)'
+      );
+    });
+
+    it('should step with the arrow keys', () => {
+      renderPanel();
+      const morningButton = screen.getByRole('button', { name: /Morning/i });
+
+      fireEvent.click(morningButton);
+      fireEvent.keyDown(morningButton, { key: 'ArrowRight' });
+      expect(screen.getByRole('button', { name: /Afternoon/i })).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.keyDown(morningButton, { key: 'ArrowLeft' });
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should leave the arrow keys to the date input', () => {
+      const props = renderPanel();
+
+      fireEvent.keyDown(screen.getByDisplayValue('2025-01-15'), { key: 'ArrowRight' });
+
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Follow Live', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    // Advances the fake clock and flushes the resulting state updates
+    const advanceTime = (ms: number) => {
+      // eslint-disable-next-line @typescript-eslint/no-deprecated
+      act(() => {
+        jest.advanceTimersByTime(ms);
+      });
+    };
 
+    const renderPanel = (options: Partial<SimpleOptions>) => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          ...options,
+        },
+      });
       render(<SimplePanel {...props} />);
+      return props;
+    };
 
-      const dateInput = screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/) as HTMLInputElement;
+    it('should hide the toggle by default', () => {
+      renderPanel({});
 
-      // Change date to a past date
-      fireEvent.change(dateInput, { target: { value: '2025-01-01' } });
-      expect(dateInput.value).toBe('2025-01-01');
+      expect(screen.queryByRole('button', { name: /Live/i })).not.toBeInTheDocument();
+    });
 
-      // Click Today button
-      const todayButton = screen.getByRole('button', { name: /Today/i });
-      fireEvent.click(todayButton);
+    it('should select the running shift when switched on', () => {
+      // 05:59 in Warsaw on 2025-01-16, last minute of the night shift of the 15th
+      jest.useFakeTimers({ now: new Date('2025-01-16T04:59:00Z') });
+      const props = renderPanel({ showLiveToggle: true });
 
-      // Should reset to current date
-      await waitFor(() => {
-        const today = new Date().toISOString().split('T')[0];
-        expect(dateInput.value).toBe(today);
+      fireEvent.click(screen.getByRole('button', { name: /Live/i }));
+
+      expect(screen.getByRole('button', { name: /Live/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-01-15')).toBeInTheDocument();
+      expect(props.onChangeTimeRange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should advance to the next shift across midnight and date boundaries', () => {
+      jest.useFakeTimers({ now: new Date('2025-01-16T04:59:00Z') });
+      const { getShiftTimeRange } = require('../timeLogic');
+      const props = renderPanel({ followLive: true });
+
+      advanceTime(60 * 1000);
+
+      expect(getShiftTimeRange).toHaveBeenLastCalledWith(mockShifts[0], 'Europe/Warsaw', '2025-01-16', 'earlier');
+      expect(props.onChangeTimeRange).toHaveBeenCalledTimes(2);
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-01-16')).toBeInTheDocument();
+    });
+
+    it('should advance at the real handover time on DST nights', () => {
+      // 21:59 CET on 2025-03-29; the night shift is one hour short because clocks spring forward
+      jest.useFakeTimers({ now: new Date('2025-03-29T20:59:00Z') });
+      renderPanel({ followLive: true });
+
+      advanceTime(60 * 1000);
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+
+      advanceTime(7 * 60 * 60 * 1000 - 1);
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+
+      advanceTime(1);
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-03-30')).toBeInTheDocument();
+    });
+
+    it('should follow changes of the shift plan', () => {
+      jest.useFakeTimers({ now: new Date('2025-01-16T04:59:00Z') });
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          followLive: true,
+        },
+      });
+      const { rerender } = render(<SimplePanel {...props} />);
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+
+      const earlyShifts: Shift[] = [
+        { name: 'Morning', start: '05:00', end: '14:00' },
+        { name: 'Afternoon', start: '14:00', end: '22:00' },
+        { name: 'Night', start: '22:00', end: '05:00' },
+      ];
+      rerender(<SimplePanel {...props} options={{ ...props.options, shifts: earlyShifts }} />);
+
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-01-16')).toBeInTheDocument();
+    });
+
+    it('should stop following when a shift is picked by hand', () => {
+      jest.useFakeTimers({ now: new Date('2025-01-16T04:59:00Z') });
+      renderPanel({ showLiveToggle: true, followLive: true });
+
+      fireEvent.click(screen.getByRole('button', { name: /Afternoon/i }));
+      advanceTime(60 * 1000);
+
+      expect(screen.getByRole('button', { name: /Live/i })).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByRole('button', { name: /Afternoon/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  describe('URL State', () => {
+    const renderPanel = (options: Partial<SimpleOptions> = {}) => {
+      const props = createMockPanelProps({
+        id: 7,
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          ...options,
+        },
+      });
+      render(<SimplePanel {...props} />);
+      return props;
+    };
+
+    it('should restore the shift and date from the URL', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-7': 'Night',
+        'shiftDate-7': '2026-10-12',
+      });
+
+      const props = renderPanel();
+
+      expect(screen.getByDisplayValue('2026-10-12')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+      // The dashboard time range comes from the same link
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+    });
+
+    it('should restore the full day selection', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-7': 'Full day',
+        'shiftDate-7': '2026-10-12',
+      });
+
+      renderPanel({ showFullDay: true });
+
+      expect(screen.getByRole('button', { name: /Full day/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should ignore unknown shifts and malformed dates', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-7': 'Graveyard',
+        'shiftDate-7': '12.10.2026',
+      });
+
+      renderPanel();
+
+      expect(screen.queryByDisplayValue('12.10.2026')).not.toBeInTheDocument();
+      expect(screen.queryAllByRole('button', { pressed: true })).toHaveLength(0);
+    });
+
+    it('should take precedence over auto-select', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-7': 'Morning',
+        'shiftDate-7': '2026-10-12',
+      });
+
+      const props = renderPanel({ autoSelect: 'previous' });
+
+      expect(props.onChangeTimeRange).not.toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should write the selected shift and date to the URL', () => {
+      renderPanel();
+
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2026-10-12' } });
+      expect(locationService.partial).toHaveBeenLastCalledWith(
+        { 'shift-7': undefined, 'shiftDate-7': '2026-10-12' },
+        true
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /Night/i }));
+      expect(locationService.partial).toHaveBeenCalledWith({ 'shift-7': 'Night', 'shiftDate-7': '2026-10-12' }, true);
+    });
+  });
+
+  describe('Shifts from Query Results', () => {
+    const shiftsData = (names: string[]) =>
+      ({
+        series: [
+          toDataFrame({
+            fields: [
+              { name: 'name', type: FieldType.string, values: names },
+              { name: 'start', type: FieldType.string, values: names.map(() => '06:00:00') },
+              { name: 'end', type: FieldType.string, values: names.map(() => '14:00:00') },
+            ],
+          }),
+        ],
+      } as any);
+    const options: SimpleOptions = {
+      shifts: mockShifts,
+      shiftsSource: 'data',
+      displayMode: 'buttons',
+      showDatePicker: true,
+      timezone: 'UTC',
+    };
+
+    it('should show the shifts of the query instead of the shift list', () => {
+      render(<SimplePanel {...createMockPanelProps({ options, data: shiftsData(['Line A', 'Line B']) })} />);
+
+      expect(screen.getByRole('button', { name: /Line A/ })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Line B/ })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Morning/ })).not.toBeInTheDocument();
+    });
+
+    it('should rebuild the buttons when the data refreshes', () => {
+      const props = createMockPanelProps({ options, data: shiftsData(['Line A']) });
+      const { rerender } = render(<SimplePanel {...props} />);
+
+      rerender(<SimplePanel {...props} data={shiftsData(['Line A', 'Line C'])} />);
+
+      expect(screen.getByRole('button', { name: /Line C/ })).toBeInTheDocument();
+    });
+
+    it('should explain the mapping when the query returns no shifts', () => {
+      render(<SimplePanel {...createMockPanelProps({ options })} />);
+
+      expect(screen.getByText(/No shifts found in the query results/)).toBeInTheDocument();
+    });
+
+    it('should restore a shared selection once the query returns', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-1': 'Line B',
+        'shiftDate-1': '2025-01-15',
+      });
+      const props = createMockPanelProps({ options });
+      const { rerender } = render(<SimplePanel {...props} />);
+
+      rerender(<SimplePanel {...props} data={shiftsData(['Line A', 'Line B'])} />);
+
+      expect(screen.getByRole('button', { name: /Line B/ })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-01-15')).toBeInTheDocument();
+    });
+  });
+
+  describe('Shifts from Text', () => {
+    const plan = '[{"name":"Early","start":"05:00","end":"13:00"},{"name":"Late","start":"13:00","end":"21:00"}]';
+    const options: SimpleOptions = {
+      shifts: mockShifts,
+      shiftsSource: 'text',
+      shiftsText: '${shift_plan}',
+      displayMode: 'buttons',
+      showDatePicker: true,
+      timezone: 'UTC',
+    };
+
+    it('should show the shifts of an interpolated dashboard variable', () => {
+      const props = createMockPanelProps({ options });
+      (props.replaceVariables as jest.Mock).mockImplementation((text: string) => text.replace('${shift_plan}', plan));
+
+      render(<SimplePanel {...props} />);
+
+      expect(props.replaceVariables).toHaveBeenCalledWith('${shift_plan}');
+      expect(screen.getByRole('button', { name: /Early/ })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Late/ })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Morning/ })).not.toBeInTheDocument();
+    });
+
+    it('should report malformed entries', () => {
+      const props = createMockPanelProps({
+        options: { ...options, shiftsText: 'name,start,end\nEarly,05:00,13:00\nLate,13:00,26:00' },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      expect(screen.getByText('Invalid shift definitions')).toBeInTheDocument();
+      expect(screen.getByText(/Shift 2 \("Late"\): Invalid hour values/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Dashboard Time Range', () => {
+    const range = (from: string, to: string) =>
+      ({ from: dayjs.utc(from), to: dayjs.utc(to), raw: { from, to } } as any);
+    // Night shift of 2025-01-15 in Warsaw: 22:00 CET to 06:00 CET the next day
+    const nightRange = range('2025-01-15T21:00:00Z', '2025-01-16T05:00:00Z');
+    const options: SimpleOptions = {
+      shifts: mockShifts,
+      displayMode: 'buttons',
+      showDatePicker: true,
+      timezone: 'Europe/Warsaw',
+      showFullDay: true,
+    };
+
+    it('should highlight the shift matching the dashboard time range and sync the date', () => {
+      render(<SimplePanel {...createMockPanelProps({ options, timeRange: nightRange })} />);
+
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByDisplayValue('2025-01-15')).toBeInTheDocument();
+      expect(screen.queryByText('Custom range')).not.toBeInTheDocument();
+    });
+
+    it('should follow changes of the dashboard time range', () => {
+      const props = createMockPanelProps({ options, timeRange: nightRange });
+      const { rerender } = render(<SimplePanel {...props} />);
+
+      rerender(<SimplePanel {...props} timeRange={range('2025-01-20T05:00:00Z', '2025-01-20T13:00:00Z')} />);
+
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: /Night/i })).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByDisplayValue('2025-01-20')).toBeInTheDocument();
+    });
+
+    it('should recognise the full day', () => {
+      render(
+        <SimplePanel
+          {...createMockPanelProps({ options, timeRange: range('2025-01-15T05:00:00Z', '2025-01-16T05:00:00Z') })}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: /Full day/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('should show a custom range when no shift matches', () => {
+      const props = createMockPanelProps({ options, timeRange: nightRange });
+      const { rerender } = render(<SimplePanel {...props} />);
+
+      rerender(<SimplePanel {...props} timeRange={range('2025-01-15T08:00:00Z', '2025-01-15T09:00:00Z')} />);
+
+      expect(screen.getByText('Custom range')).toBeInTheDocument();
+      expect(screen.queryAllByRole('button', { pressed: true })).toHaveLength(0);
+    });
+
+    it('should write the shift matching a new range to the URL and variables', () => {
+      const props = createMockPanelProps({
+        id: 7,
+        options: { ...options, variables: { name: 'shift_name' } },
+        timeRange: nightRange,
+      });
+      const { rerender } = render(<SimplePanel {...props} />);
+
+      rerender(<SimplePanel {...props} timeRange={range('2025-01-20T05:00:00Z', '2025-01-20T13:00:00Z')} />);
+
+      expect(locationService.partial).toHaveBeenCalledWith({ 'shift-7': 'Morning', 'shiftDate-7': '2025-01-20' }, true);
+      expect(locationService.partial).toHaveBeenCalledWith({ 'var-shift_name': 'Morning' }, true);
+    });
+
+    it('should not restore a shift on reload after a custom range was picked', () => {
+      const props = createMockPanelProps({ id: 7, options, timeRange: nightRange });
+      const { rerender, unmount } = render(<SimplePanel {...props} />);
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+
+      const customRange = range('2025-01-15T08:00:00Z', '2025-01-15T09:00:00Z');
+      rerender(<SimplePanel {...props} timeRange={customRange} />);
+      unmount();
+
+      // Reload with the URL the panel left behind
+      const url = Object.assign({}, ...(locationService.partial as jest.Mock).mock.calls.map(([query]) => query));
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce(url);
+      render(<SimplePanel {...props} timeRange={customRange} />);
+
+      expect(screen.getByText('Custom range')).toBeInTheDocument();
+      expect(screen.queryAllByRole('button', { pressed: true })).toHaveLength(0);
+    });
+
+    it('should clear the custom range when a shift is picked', () => {
+      render(<SimplePanel {...createMockPanelProps({ options })} />);
+      expect(screen.getByText('Custom range')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+
+      expect(screen.queryByText('Custom range')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Dashboard Variables', () => {
+    const variables = {
+      name: 'shift_name',
+      date: 'shift_date',
+      start: 'shift_start',
+      end: 'shift_end',
+      index: 'shift_index',
+      crew: 'shift_crew',
+    };
+
+    it('should publish the selected shift to the configured variables', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          variables,
+          rotation: { cycleLength: 1, anchorDate: '2025-01-01', assignments: [{ shift: 'Night', crews: ['C'] }] },
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-01-15' } });
+      fireEvent.click(screen.getByRole('button', { name: /Night/i }));
+
+      expect(locationService.partial).toHaveBeenCalledWith(
+        {
+          'var-shift_name': 'Night',
+          'var-shift_date': '2025-01-15',
+          'var-shift_start': String(new Date('2025-01-15 22:00').getTime()),
+          'var-shift_end': String(new Date('2025-01-15 06:00').getTime()),
+          'var-shift_index': '3',
+          'var-shift_crew': 'C',
+        },
+        true
+      );
+    });
+
+    it('should publish the full day selection', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          showFullDay: true,
+          variables: { name: 'shift_name', index: 'shift_index' },
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+      fireEvent.click(screen.getByRole('button', { name: /Full day/i }));
+
+      expect(locationService.partial).toHaveBeenCalledWith(
+        { 'var-shift_name': 'Full day', 'var-shift_index': '' },
+        true
+      );
+    });
+  });
+
+  describe('Weekday Schedules', () => {
+    const weeklyShifts: Shift[] = [
+      { name: 'Early', start: '06:00', end: '14:00', weekdays: [1, 2, 3, 4, 5] },
+      { name: 'Weekend Day', start: '06:00', end: '18:00', weekdays: [0, 6] },
+    ];
+
+    it('should only show shifts scheduled on the selected date', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: weeklyShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      const dateInput = screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/);
+
+      // Wednesday
+      fireEvent.change(dateInput, { target: { value: '2025-01-15' } });
+      expect(screen.getByText('Early')).toBeInTheDocument();
+      expect(screen.queryByText('Weekend Day')).not.toBeInTheDocument();
+
+      // Saturday
+      fireEvent.change(dateInput, { target: { value: '2025-01-18' } });
+      expect(screen.queryByText('Early')).not.toBeInTheDocument();
+      expect(screen.getByText('Weekend Day')).toBeInTheDocument();
+    });
+
+    it('should show a notice when no shift runs on the selected date', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: [weeklyShifts[0]],
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      const dateInput = screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/);
+      fireEvent.change(dateInput, { target: { value: '2025-01-19' } });
+
+      expect(screen.getByText('No shifts scheduled on Sunday.')).toBeInTheDocument();
+    });
+  });
+
+  describe('Crew Rotation', () => {
+    it('should show the crew badge for the selected date', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          rotation: {
+            cycleLength: 2,
+            anchorDate: '2025-01-01',
+            assignments: [{ shift: 'Night', crews: ['A', 'B'] }],
+          },
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      const dateInput = screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/);
+      fireEvent.change(dateInput, { target: { value: '2025-01-02' } });
+
+      const nightButton = screen.getByRole('button', { name: /Night/i });
+      expect(nightButton).toHaveTextContent('B');
+      expect(nightButton).toHaveAttribute('title', 'Night: 22:00 - 06:00 (Crew B)');
+      expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('title', 'Morning: 06:00 - 14:00');
+    });
+  });
+
+  describe('Exceptions', () => {
+    const createProps = () =>
+      createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+          exceptions: [
+            { date: '2025-12-24', type: 'cancel', shift: 'Night', note: 'Christmas Eve' },
+            { date: '2025-12-24', type: 'modify', shift: 'Afternoon', start: '14:00', end: '18:00' },
+          ],
+        },
+      });
+
+    it('should grey out cancelled shifts on exception days', () => {
+      const mockOnChangeTimeRange = jest.fn();
+      render(<SimplePanel {...createProps()} onChangeTimeRange={mockOnChangeTimeRange} />);
+
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-12-24' } });
+
+      const nightButton = screen.getByRole('button', { name: /Night/i });
+      expect(nightButton).toBeDisabled();
+      expect(nightButton).toHaveAttribute('title', 'Night: cancelled - Christmas Eve');
+      expect(nightButton).toHaveTextContent('Christmas Eve');
+
+      fireEvent.click(nightButton);
+      expect(mockOnChangeTimeRange).not.toHaveBeenCalled();
+    });
+
+    it('should re-label modified shifts and use their new times', () => {
+      const { getShiftTimeRange } = require('../timeLogic');
+      render(<SimplePanel {...createProps()} />);
+
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-12-24' } });
+
+      const afternoonButton = screen.getByRole('button', { name: /Afternoon/i });
+      expect(afternoonButton).toHaveTextContent('14:00 - 18:00');
+      expect(afternoonButton).toHaveTextContent('Changed');
+
+      fireEvent.click(afternoonButton);
+      expect(getShiftTimeRange).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Afternoon', end: '18:00' }),
+        'Europe/Warsaw',
+        '2025-12-24',
+        'earlier'
+      );
+    });
+
+    it('should leave other dates untouched', () => {
+      render(<SimplePanel {...createProps()} />);
+
+      fireEvent.change(screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/), { target: { value: '2025-12-23' } });
+
+      expect(screen.getByRole('button', { name: /Night/i })).not.toBeDisabled();
+      expect(screen.getByText('14:00 - 22:00')).toBeInTheDocument();
+    });
+  });
+
+  describe('Dropdown Display Mode', () => {
+    it('should render dropdown when displayMode is dropdown', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'dropdown',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      expect(screen.getByText('Select a shift...')).toBeInTheDocument();
+    });
+
+    it('should show shift options in dropdown format', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'dropdown',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      // Dropdown should contain placeholder text
+      expect(screen.getByText('Select a shift...')).toBeInTheDocument();
+    });
+  });
+
+  describe('Date Picker', () => {
+    it('should render date picker when showDatePicker is true', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      const dateInput = screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/);
+      expect(dateInput).toBeInTheDocument();
+    });
+
+    it('should not render date picker when showDatePicker is false', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: false,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      const dateInputs = screen.queryAllByDisplayValue(/\d{4}-\d{2}-\d{2}/);
+      expect(dateInputs.length).toBe(0);
+    });
+
+    it('should render Today button', () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      expect(screen.getByRole('button', { name: /Today/i })).toBeInTheDocument();
+    });
+
+    it('should reset date to today when Today button is clicked', async () => {
+      const props = createMockPanelProps({
+        options: {
+          shifts: mockShifts,
+          displayMode: 'buttons',
+          showDatePicker: true,
+          timezone: 'Europe/Warsaw',
+        },
+      });
+
+      render(<SimplePanel {...props} />);
+
+      const dateInput = screen.getByDisplayValue(/\d{4}-\d{2}-\d{2}/) as HTMLInputElement;
+
+      // Change date to a past date
+      fireEvent.change(dateInput, { target: { value: '2025-01-01' } });
+      expect(dateInput.value).toBe('2025-01-01');
+
+      // Click Today button
+      const todayButton = screen.getByRole('button', { name: /Today/i });
+      fireEvent.click(todayButton);
+
+      // Should reset to the current date in the business timezone
+      await waitFor(() => {
+        const today = dayjs().tz('Europe/Warsaw').format('YYYY-MM-DD');
+        expect(dateInput.value).toBe(today);
+      });
+    });
+
+    describe('with a production day start', () => {
+      beforeEach(() => {
+        // 02:00 in Warsaw on 2025-01-16
+        jest.useFakeTimers({ now: new Date('2025-01-16T01:00:00Z') });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should open on the current production day', () => {
+        const props = createMockPanelProps({
+          options: {
+            shifts: mockShifts,
+            displayMode: 'buttons',
+            showDatePicker: true,
+            timezone: 'Europe/Warsaw',
+            productionDayStart: '06:00',
+          },
+        });
+
+        render(<SimplePanel {...props} />);
+
+        expect(screen.getByDisplayValue('2025-01-15')).toBeInTheDocument();
+      });
+
+      it('should return to the current production day when Today is clicked', () => {
+        const props = createMockPanelProps({
+          options: {
+            shifts: mockShifts,
+            displayMode: 'buttons',
+            showDatePicker: true,
+            timezone: 'Europe/Warsaw',
+            productionDayStart: '06:00',
+          },
+        });
+
+        render(<SimplePanel {...props} />);
+        const dateInput = screen.getByDisplayValue('2025-01-15');
+        fireEvent.change(dateInput, { target: { value: '2025-01-01' } });
+        fireEvent.click(screen.getByRole('button', { name: /Today/i }));
+
+        expect(dateInput).toHaveValue('2025-01-15');
+      });
+
+      it('should apply the selected shift to the current production day when Today is clicked', () => {
+        const props = createMockPanelProps({
+          id: 7,
+          options: {
+            shifts: mockShifts,
+            displayMode: 'buttons',
+            showDatePicker: true,
+            timezone: 'Europe/Warsaw',
+            productionDayStart: '06:00',
+          },
+        });
+
+        render(<SimplePanel {...props} />);
+        fireEvent.change(screen.getByDisplayValue('2025-01-15'), { target: { value: '2025-01-01' } });
+        fireEvent.click(screen.getByRole('button', { name: /Morning/i }));
+        fireEvent.click(screen.getByRole('button', { name: /Today/i }));
+
+        expect(props.onChangeTimeRange).toHaveBeenLastCalledWith({
+          from: new Date('2025-01-15 06:00').getTime(),
+          to: new Date('2025-01-15 14:00').getTime(),
+        });
+        expect(locationService.partial).toHaveBeenCalledWith(
+          { 'shift-7': 'Morning', 'shiftDate-7': '2025-01-15' },
+          true
+        );
+        expect(screen.getByRole('button', { name: /Morning/i })).toHaveAttribute('aria-pressed', 'true');
+      });
+
+      it('should clear a shift that does not run on the current production day when Today is clicked', () => {
+        const props = createMockPanelProps({
+          id: 7,
+          options: {
+            shifts: [...mockShifts, { name: 'Inventory', start: '08:00', end: '12:00', weekdays: [1] }],
+            displayMode: 'buttons',
+            showDatePicker: true,
+            timezone: 'Europe/Warsaw',
+            productionDayStart: '06:00',
+          },
+        });
+
+        render(<SimplePanel {...props} />);
+        fireEvent.change(screen.getByDisplayValue('2025-01-15'), { target: { value: '2025-01-13' } });
+        fireEvent.click(screen.getByRole('button', { name: /Inventory/i }));
+        fireEvent.click(screen.getByRole('button', { name: /Today/i }));
+
+        expect(props.onChangeTimeRange).toHaveBeenCalledTimes(1);
+        expect(locationService.partial).toHaveBeenLastCalledWith(
+          { 'shift-7': undefined, 'shiftDate-7': '2025-01-15' },
+          true
+        );
+        expect(screen.queryAllByRole('button', { pressed: true })).toHaveLength(0);
+      });
+
+      it('should use the calendar day in the business timezone by default', () => {
+        const props = createMockPanelProps({
+          options: {
+            shifts: mockShifts,
+            displayMode: 'buttons',
+            showDatePicker: true,
+            timezone: 'Europe/Warsaw',
+          },
+        });
+
+        render(<SimplePanel {...props} />);
+
+        expect(screen.getByDisplayValue('2025-01-16')).toBeInTheDocument();
+      });
+    });
+
+    describe('with a default date', () => {
+      beforeEach(() => {
+        // 02:00 in Warsaw on Thursday 2025-01-16
+        jest.useFakeTimers({ now: new Date('2025-01-16T01:00:00Z') });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      const renderWithDefaultDate = (selectedDate: string, productionDayStart?: string) =>
+        render(
+          <SimplePanel
+            {...createMockPanelProps({
+              options: {
+                shifts: mockShifts,
+                displayMode: 'buttons',
+                showDatePicker: true,
+                timezone: 'Europe/Warsaw',
+                selectedDate,
+                productionDayStart,
+              },
+            })}
+          />
+        );
+
+      it('should open on an absolute default date', () => {
+        renderWithDefaultDate('2024-12-24');
+
+        expect(screen.getByDisplayValue('2024-12-24')).toBeInTheDocument();
+      });
+
+      it('should resolve relative dates against the production day', () => {
+        renderWithDefaultDate('today-1', '06:00');
+
+        expect(screen.getByDisplayValue('2025-01-14')).toBeInTheDocument();
+      });
+
+      it('should resolve weekdays', () => {
+        renderWithDefaultDate('last monday');
+
+        expect(screen.getByDisplayValue('2025-01-13')).toBeInTheDocument();
+      });
+
+      it('should report an invalid expression and open on today', () => {
+        renderWithDefaultDate('someday');
+
+        expect(screen.getByText('Invalid date expression: "someday"')).toBeInTheDocument();
+        fireEvent.click(screen.getByRole('button', { name: /Dismiss/i }));
+        expect(screen.getByDisplayValue('2025-01-16')).toBeInTheDocument();
+      });
+
+      it('should still go to the current day when Today is clicked', () => {
+        renderWithDefaultDate('yesterday');
+        fireEvent.click(screen.getByRole('button', { name: /Today/i }));
+
+        expect(screen.getByDisplayValue('2025-01-16')).toBeInTheDocument();
+      });
+
+      it('should let a date from the URL win', () => {
+        (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({ 'shiftDate-1': '2025-01-02' });
+        renderWithDefaultDate('yesterday');
+
+        expect(screen.getByDisplayValue('2025-01-02')).toBeInTheDocument();
       });
     });
 
@@ -1,8 +1,36 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { PanelProps } from '@grafana/data';
-import { SimpleOptions, Shift } from '../types';
+import { SimpleOptions, Shift, ScheduledShift, ShiftException, ShiftInstance, DstPolicy } from '../types';
 import { Select, useTheme2, Icon } from '@grafana/ui';
-import { getShiftTimeRange } from '../timeLogic';
+import {
+  getShiftTimeRange,
+  getShiftsForDate,
+  getShiftCrew,
+  isShiftCancelled,
+  formatShiftTimes,
+  getShiftDstInfo,
+  formatDuration,
+  getShiftBreakRanges,
+  getShiftWorkingTime,
+  getFullDayRange,
+  formatTimeRange,
+  getProductionDate,
+  getShiftInstances,
+  findShiftInstance,
+  getNextShiftBoundary,
+  getAdjacentShiftInstance,
+  findShiftInstanceByRange,
+  resolveDateExpression,
+} from '../timeLogic';
+import {
+  formatBreaksVariable,
+  getShiftVariableValues,
+  getPanelUrlState,
+  setDashboardTimeRange,
+  setDashboardVariables,
+  setPanelUrlState,
+} from '../dashboardVariables';
+import { getShiftsFromData, parseShiftsText } from '../shiftSources';
 import { css, cx } from '@emotion/css';
 import styles from './SimplePanel.module.css';
 import dayjs from 'dayjs';
@@ -10,6 +38,12 @@ import { ErrorBoundary } from './ErrorBoundary';
 
 interface Props extends PanelProps<SimpleOptions> {}
 
+// Follow-live re-checks at least hourly, so long gaps, sleeping screens and clock changes cannot stall it
+const MAX_LIVE_DELAY_MS = 60 * 60 * 1000;
+
+// Dropdown option value standing for the whole production day
+const FULL_DAY_OPTION: ScheduledShift = { name: 'Full day', start: '', end: '' };
+
 // Helper function to determine the best icon for a shift based on its name
 const getShiftIcon = (shiftName: string): string => {
   const name = shiftName.toLowerCase();
@@ -26,33 +60,422 @@ const getShiftIcon = (shiftName: string): string => {
   }
 };
 
-const SimplePanelContent: React.FC<Props> = ({ options, onChangeTimeRange }) => {
-  const { shifts, displayMode, showDatePicker = true, timezone = 'Europe/Warsaw' } = options;
+// Current production day; an invalid timezone falls back to the browser date and is reported when a shift is clicked
+const getToday = (timezone: string, productionDayStart: string): string => {
+  try {
+    return getProductionDate(timezone, productionDayStart);
+  } catch {
+    return dayjs().format('YYYY-MM-DD');
+  }
+};
+
+// Date the panel opens on, from the "Default date" option; an invalid expression falls back to today and is reported
+const getDefaultDate = (
+  expression: string | undefined,
+  timezone: string,
+  productionDayStart: string
+): { date: string; error?: string } => {
+  const today = getToday(timezone, productionDayStart);
+  if (!expression?.trim()) {
+    return { date: today };
+  }
+  try {
+    return { date: resolveDateExpression(expression, today) };
+  } catch (err) {
+    return { date: today, error: err instanceof Error ? err.message : 'Invalid default date' };
+  }
+};
+
+// Shift instances around the current production day: long and date-offset shifts of neighbouring days
+// may be running, and the next shift may be days away. Misconfigured shifts are left out and report
+// their errors when clicked.
+const getLiveInstances = (
+  shifts: Shift[],
+  timezone: string,
+  productionDayStart: string,
+  exceptions: ShiftException[] | undefined,
+  dstPolicy: DstPolicy,
+  now: number
+): ShiftInstance[] => {
+  const today = getProductionDate(timezone, productionDayStart, now);
+  return getShiftInstances(
+    shifts,
+    timezone,
+    dayjs(today).subtract(3, 'day').format('YYYY-MM-DD'),
+    dayjs(today).add(7, 'day').format('YYYY-MM-DD'),
+    exceptions,
+    dstPolicy
+  );
+};
+
+// Time range of a shift, or of the full day, on a date; null when it does not run then
+const getSelectionRange = (
+  shifts: Shift[],
+  name: string,
+  date: string,
+  timezone: string,
+  exceptions: ShiftException[] | undefined,
+  dstPolicy: DstPolicy
+): { from: number; to: number } | null => {
+  if (name === FULL_DAY_OPTION.name) {
+    return getFullDayRange(shifts, timezone, date, exceptions, dstPolicy);
+  }
+  const shift = getShiftsForDate(shifts, date, exceptions).find((s) => s.name === name && !isShiftCancelled(s));
+  return shift ? getShiftTimeRange(shift, timezone, date, dstPolicy) : null;
+};
+
+// Short label shown on buttons of shifts affected by an exception
+const getExceptionLabel = (exception: ShiftException): string => {
+  if (exception.note) {
+    return exception.note;
+  }
+  switch (exception.type) {
+    case 'cancel':
+      return 'Cancelled';
+    case 'add':
+      return 'Extra';
+    default:
+      return 'Changed';
+  }
+};
+
+const SimplePanelContent: React.FC<Props> = ({ id, data, options, timeRange, onChangeTimeRange, replaceVariables }) => {
+  const {
+    shifts: shiftList,
+    shiftsSource = 'manual',
+    shiftFields,
+    shiftsText,
+    displayMode,
+    showDatePicker = true,
+    showFullDay = false,
+    autoSelect = 'none',
+    shiftToDate = false,
+    showNavigation = false,
+    showLiveToggle = false,
+    followLive: followLiveByDefault = false,
+    selectedDate: defaultDateExpression,
+    timezone = 'Europe/Warsaw',
+    productionDayStart = '00:00',
+    dstPolicy = 'earlier',
+    rotation,
+    exceptions,
+    variables,
+    breaksVariable,
+    breaksVariableFormat = 'json',
+    breaksSqlColumn,
+  } = options;
   const theme = useTheme2();
 
+  // Shifts from the panel query are rebuilt whenever the data refreshes, shifts from text whenever its variables change
+  const interpolatedText = shiftsSource === 'text' ? replaceVariables(shiftsText ?? '') : '';
+  const { shifts, sourceError } = useMemo((): { shifts: Shift[]; sourceError?: string } => {
+    if (shiftsSource === 'data') {
+      return { shifts: getShiftsFromData(data.series, shiftFields) };
+    }
+    if (shiftsSource === 'text') {
+      try {
+        return { shifts: parseShiftsText(interpolatedText) };
+      } catch (err) {
+        return { shifts: [], sourceError: err instanceof Error ? err.message : 'Invalid shift definitions' };
+      }
+    }
+    return { shifts: shiftList };
+  }, [shiftsSource, shiftList, data.series, shiftFields, interpolatedText]);
+  const hasShifts = !!shifts && shifts.length > 0;
+
   // State for selected date and selected shift
-  const [selectedDate, setSelectedDate] = useState<string>(dayjs().format('YYYY-MM-DD'));
-  const [selectedShift, setSelectedShift] = useState<Shift | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // A shared or bookmarked link restores its shift and date; otherwise the panel opens on the default date,
+  // relative to the current production day in the business timezone, independent of the viewer's location
+  const [urlState] = useState(() => getPanelUrlState(id));
+  const [defaultDate] = useState(() => getDefaultDate(defaultDateExpression, timezone, productionDayStart));
+  const [selectedDate, setSelectedDate] = useState<string>(() => urlState.date ?? defaultDate.date);
+  const [selectedShift, setSelectedShift] = useState<Shift | null>(
+    () =>
+      getShiftsForDate(shifts ?? [], selectedDate, exceptions).find(
+        (s) => s.name === urlState.shift && !isShiftCancelled(s)
+      ) ?? null
+  );
+  const [fullDaySelected, setFullDaySelected] = useState(urlState.shift === FULL_DAY_OPTION.name);
+  const [followLive, setFollowLive] = useState<boolean>(followLiveByDefault && !urlState.shift);
+  const [liveTick, setLiveTick] = useState(0);
+  const [error, setError] = useState<string | null>(defaultDate.error ?? null);
+  const [customRange, setCustomRange] = useState(false);
+
+  // Pending switch from a "shift start to now" range back to the absolute range once the shift ends
+  const shiftEndTimer = useRef<ReturnType<typeof setTimeout>>();
+  const shiftToDateFrom = useRef<number>();
+  useEffect(() => () => clearTimeout(shiftEndTimer.current), []);
+
+  // Latest selection handlers for the effects below, which must not re-run on every render
+  const handlers = useRef<{
+    selectShift: (shift: Shift, date: string) => void;
+    showSelection: (shift: Shift | null, date: string, range: { from: number; to: number }) => void;
+  }>();
+
+  // Select the current or previous shift once, when the panel loads or its query first returns shifts
+  const loaded = useRef(false);
+  useEffect(() => {
+    if (!hasShifts || loaded.current) {
+      return;
+    }
+    loaded.current = true;
+    if (urlState.shift) {
+      // Shifts from the query were not available yet when the link was restored
+      if (!selectedShift && !fullDaySelected) {
+        setSelectedShift(
+          getShiftsForDate(shifts, selectedDate, exceptions).find(
+            (s) => s.name === urlState.shift && !isShiftCancelled(s)
+          ) ?? null
+        );
+      }
+      return;
+    }
+    if (autoSelect === 'none') {
+      return;
+    }
+    try {
+      const now = Date.now();
+      const instances = getLiveInstances(shifts, timezone, productionDayStart, exceptions, dstPolicy, now);
+      const instance = findShiftInstance(instances, now, autoSelect);
+      if (instance) {
+        handlers.current?.selectShift(instance.shift, instance.date);
+      }
+    } catch (err) {
+      // Misconfigured shifts report their errors when clicked
+      console.error('Error selecting shift on load:', err);
+    }
+  }, [
+    hasShifts,
+    urlState.shift,
+    selectedShift,
+    fullDaySelected,
+    shifts,
+    selectedDate,
+    exceptions,
+    autoSelect,
+    timezone,
+    productionDayStart,
+    dstPolicy,
+  ]);
+
+  // Follow-live: keep the running shift selected and wake up at the next shift start or end
+  useEffect(() => {
+    if (!followLive || !hasShifts) {
+      return;
+    }
+    let nextBoundary: number | undefined;
+    try {
+      const now = Date.now();
+      const instances = getLiveInstances(shifts, timezone, productionDayStart, exceptions, dstPolicy, now);
+      const current = findShiftInstance(instances, now, 'current');
+      if (current && (selectedShift?.name !== current.shift.name || selectedDate !== current.date)) {
+        handlers.current?.selectShift(current.shift, current.date);
+      }
+      nextBoundary = getNextShiftBoundary(instances, now);
+    } catch (err) {
+      console.error('Error following the live shift:', err);
+    }
+
+    const delay =
+      nextBoundary === undefined ? MAX_LIVE_DELAY_MS : Math.min(nextBoundary - Date.now(), MAX_LIVE_DELAY_MS);
+    const timer = setTimeout(() => setLiveTick((tick) => tick + 1), Math.max(delay, 0));
+    return () => clearTimeout(timer);
+  }, [
+    followLive,
+    liveTick,
+    hasShifts,
+    shifts,
+    exceptions,
+    timezone,
+    productionDayStart,
+    dstPolicy,
+    selectedShift?.name,
+    selectedDate,
+  ]);
+
+  // Dashboard time range, with a relative end kept as "now"
+  const rangeFrom = timeRange.from.valueOf();
+  const rangeTo = timeRange.raw.to === 'now' ? 'now' : timeRange.to.valueOf();
 
-  if (!shifts || shifts.length === 0) {
+  // Any other range, e.g. from the time picker, cancels the pending switch of a "shift start to now" range
+  useEffect(() => {
+    if (rangeTo !== 'now' || rangeFrom !== shiftToDateFrom.current) {
+      clearTimeout(shiftEndTimer.current);
+    }
+  }, [rangeFrom, rangeTo]);
+
+  // Reflect the dashboard time range: highlight the shift it matches, or mark it as a custom range.
+  // The URL and variables follow too, so a reload restores what the range showed.
+  // On load, a shared link, auto-select or follow-live selection wins over the saved range.
+  // Each range is matched once; shifts rebuilt from a query refresh do not re-run the matching.
+  const skipInitialRange = useRef(!!urlState.shift || autoSelect !== 'none' || followLive);
+  const matchedRange = useRef<string>();
+  useEffect(() => {
+    if (!hasShifts || matchedRange.current === `${rangeFrom}/${rangeTo}`) {
+      return;
+    }
+    matchedRange.current = `${rangeFrom}/${rangeTo}`;
+    try {
+      if (skipInitialRange.current) {
+        skipInitialRange.current = false;
+        // A "shift start to now" range restored from a link still switches to the absolute range once the shift ends
+        const range =
+          shiftToDate && rangeTo === 'now' && urlState.shift
+            ? getSelectionRange(shifts, urlState.shift, selectedDate, timezone, exceptions, dstPolicy)
+            : null;
+        if (range && Math.abs(range.from - rangeFrom) < 1000) {
+          const now = Date.now();
+          if (now < range.to) {
+            shiftToDateFrom.current = rangeFrom;
+            shiftEndTimer.current = setTimeout(() => onChangeTimeRange(range), range.to - now);
+          } else {
+            onChangeTimeRange(range);
+          }
+        }
+        return;
+      }
+
+      const match = findShiftInstanceByRange(shifts, timezone, rangeFrom, rangeTo, exceptions, dstPolicy);
+      if (match) {
+        // A range the panel applied itself is already selected
+        if (match.shift.name !== selectedShift?.name || match.date !== selectedDate || fullDaySelected) {
+          handlers.current?.showSelection(match.shift, match.date, match);
+        }
+        return;
+      }
+
+      // The full day of the date the range starts on, or of a neighbouring date with date-offset shifts
+      const rangeDate = dayjs(rangeFrom).tz(timezone);
+      const fullDay = showFullDay
+        ? [0, 1, -1]
+            .map((days) => rangeDate.add(days, 'day').format('YYYY-MM-DD'))
+            .map((date) => ({ date, range: getFullDayRange(shifts, timezone, date, exceptions, dstPolicy) }))
+            .find(({ range }) => range && range.from === rangeFrom && range.to === rangeTo)
+        : undefined;
+      if (fullDay?.range) {
+        if (fullDay.date !== selectedDate || !fullDaySelected) {
+          handlers.current?.showSelection(null, fullDay.date, fullDay.range);
+        }
+        return;
+      }
+
+      // A shift left in the URL would be restored on reload instead of the range
+      if (selectedShift || fullDaySelected) {
+        setPanelUrlState(id, undefined, selectedDate);
+      }
+      setSelectedShift(null);
+      setFullDaySelected(false);
+      setCustomRange(true);
+      setFollowLive(false);
+    } catch (err) {
+      console.error('Error matching the dashboard time range to a shift:', err);
+    }
+  }, [
+    rangeFrom,
+    rangeTo,
+    hasShifts,
+    shifts,
+    timezone,
+    exceptions,
+    dstPolicy,
+    showFullDay,
+    id,
+    selectedShift,
+    selectedDate,
+    fullDaySelected,
+    shiftToDate,
+    urlState.shift,
+    onChangeTimeRange,
+  ]);
+
+  if (sourceError) {
+    return (
+      <div className={styles.emptyState} style={{ borderColor: 'var(--error)' }}>
+        <Icon name="exclamation-triangle" size="lg" style={{ marginBottom: '8px', color: 'var(--error)' }} />
+        <div style={{ fontWeight: 600, marginBottom: '4px' }}>Invalid shift definitions</div>
+        <div style={{ fontSize: '13px', whiteSpace: 'pre-line' }}>{sourceError}</div>
+      </div>
+    );
+  }
+
+  if (!hasShifts) {
     return (
       <div className={styles.emptyState}>
         <Icon name="info-circle" size="lg" style={{ marginBottom: '8px' }} />
-        <div>Please configure shifts in the panel editor.</div>
+        <div>
+          {shiftsSource === 'data'
+            ? 'No shifts found in the query results. Check the shift field mapping in the panel editor.'
+            : shiftsSource === 'text'
+            ? 'No shifts found in the shift definitions. Check the text or the variable it refers to.'
+            : 'Please configure shifts in the panel editor.'}
+        </div>
       </div>
     );
   }
 
-  const onShiftClick = (shift: Shift) => {
+  // Publish the selection and the break windows of the selected shifts to dashboard variables
+  const publishVariables = (
+    selection: { name: string; date: string; from: number; to: number; index?: number; crew?: string },
+    selected: Shift[]
+  ) => {
+    const values = variables ? getShiftVariableValues(variables, selection) : {};
+    if (breaksVariable) {
+      const breaks = selected.flatMap((shift) => getShiftBreakRanges(shift, timezone, selection.date, dstPolicy));
+      values[breaksVariable] = formatBreaksVariable(breaks, breaksVariableFormat, breaksSqlColumn || undefined);
+    }
+    setDashboardVariables(values);
+  };
+
+  // Applies a range to the dashboard; with shift-to-date a running range ends at "now" until it is over
+  const applyTimeRange = (from: number, to: number) => {
+    clearTimeout(shiftEndTimer.current);
+    const now = Date.now();
+    if (shiftToDate && from <= now && now < to) {
+      shiftToDateFrom.current = from;
+      setDashboardTimeRange(from, 'now');
+      shiftEndTimer.current = setTimeout(() => onChangeTimeRange({ from, to }), to - now);
+    } else {
+      onChangeTimeRange({ from, to });
+    }
+  };
+
+  // Marks a shift, or the full day for null, as selected, stores it in the URL and publishes its variables
+  const showSelection = (shift: Shift | null, date: string, range: { from: number; to: number }) => {
+    setSelectedDate(date);
+    setSelectedShift(shift);
+    setFullDaySelected(!shift);
+    setCustomRange(false);
+    setPanelUrlState(id, shift ? shift.name : FULL_DAY_OPTION.name, date);
+    if (shift) {
+      const index = shifts.findIndex((s) => s.name === shift.name);
+      publishVariables(
+        {
+          name: shift.name,
+          date,
+          from: range.from,
+          to: range.to,
+          index: index >= 0 ? index + 1 : undefined,
+          crew: getShiftCrew(shift, rotation, date),
+        },
+        [shift]
+      );
+    } else {
+      publishVariables(
+        { name: FULL_DAY_OPTION.name, date, from: range.from, to: range.to },
+        getShiftsForDate(shifts, date, exceptions).filter((s) => !isShiftCancelled(s))
+      );
+    }
+  };
+
+  const selectShift = (shift: Shift, date: string) => {
     try {
       // Clear any previous errors
       setError(null);
 
       // Calculate time range in the configured timezone, returns UTC milliseconds
-      const { from, to } = getShiftTimeRange(shift, timezone, selectedDate);
-      onChangeTimeRange({ from, to });
-      setSelectedShift(shift); // Track the selected shift
+      const range = getShiftTimeRange(shift, timezone, date, dstPolicy);
+      applyTimeRange(range.from, range.to);
+      showSelection(shift, date, range);
     } catch (err) {
       // Handle errors gracefully
       const errorMessage = err instanceof Error ? err.message : 'Failed to calculate shift time range';
@@ -61,9 +484,263 @@ const SimplePanelContent: React.FC<Props> = ({ options, onChangeTimeRange }) =>
     }
   };
 
+  handlers.current = { selectShift, showSelection };
+
+  // Picking a shift or a date by hand takes over from follow-live
+  const onShiftClick = (shift: Shift) => {
+    setFollowLive(false);
+    selectShift(shift, selectedDate);
+  };
+
+  const selectFullDay = (date: string) => {
+    try {
+      setError(null);
+
+      // Envelope of every shift running on the date
+      const range = getFullDayRange(shifts, timezone, date, exceptions, dstPolicy);
+      if (!range) {
+        return;
+      }
+      applyTimeRange(range.from, range.to);
+      showSelection(null, date, range);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to calculate full day time range';
+      setError(errorMessage);
+      console.error('Error calculating full day time range:', err);
+    }
+  };
+
+  const onFullDayClick = () => {
+    setFollowLive(false);
+    selectFullDay(selectedDate);
+  };
+
+  // A new date clears the selection, leaving the dashboard time range as it is
+  const onDateChange = (date: string) => {
+    clearTimeout(shiftEndTimer.current);
+    setSelectedDate(date);
+    setSelectedShift(null);
+    setFullDaySelected(false);
+    setFollowLive(false);
+    setPanelUrlState(id, undefined, date);
+  };
+
+  // Today applies the selected shift, or the full day, to the current production day when it runs then
   const onTodayClick = () => {
-    const today = dayjs().format('YYYY-MM-DD');
-    setSelectedDate(today);
+    const today = getToday(timezone, productionDayStart);
+    const shift = selectedShift
+      ? getShiftsForDate(shifts, today, exceptions).find((s) => s.name === selectedShift.name && !isShiftCancelled(s))
+      : undefined;
+    if (shift) {
+      setFollowLive(false);
+      selectShift(shift, today);
+    } else if (fullDaySelected && getFullDayRange(shifts, timezone, today, exceptions, dstPolicy)) {
+      setFollowLive(false);
+      selectFullDay(today);
+    } else {
+      onDateChange(today);
+    }
+  };
+
+  // Date picker is shared by both display modes
+  const datePicker = showDatePicker && (
+    <div className={styles.datePickerSection}>
+      <div className={styles.datePickerLabel}>
+        <Icon name="calendar-alt" />
+        <span>Date:</span>
+      </div>
+      <div className={styles.dateInput}>
+        <input
+          type="date"
+          value={selectedDate}
+          onChange={(e) => onDateChange(e.currentTarget.value)}
+          className={styles.nativeInput}
+          style={{ colorScheme: 'light dark' }}
+          data-date-format="yyyy-mm-dd"
+          placeholder="YYYY-MM-DD"
+          title={`Selected: ${selectedDate}`}
+        />
+      </div>
+      <button className={styles.todayButton} onClick={onTodayClick}>
+        <Icon name="sync" />
+        Today
+      </button>
+    </div>
+  );
+
+  // Previous/next shift instance, walking across dates
+  const getAdjacent = (direction: -1 | 1) => {
+    try {
+      return getAdjacentShiftInstance(
+        shifts,
+        timezone,
+        selectedDate,
+        selectedShift?.name,
+        direction,
+        exceptions,
+        dstPolicy
+      );
+    } catch {
+      return undefined;
+    }
+  };
+  const previousInstance = showNavigation ? getAdjacent(-1) : undefined;
+  const nextInstance = showNavigation ? getAdjacent(1) : undefined;
+
+  const onNavigate = (instance: ShiftInstance | undefined) => {
+    if (instance) {
+      setFollowLive(false);
+      selectShift(instance.shift, instance.date);
+    }
+  };
+
+  // Arrow keys step through shifts while focus is inside the panel, except in text fields
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!showNavigation || e.target instanceof HTMLInputElement || e.altKey || e.ctrlKey || e.metaKey) {
+      return;
+    }
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      onNavigate(e.key === 'ArrowLeft' ? previousInstance : nextInstance);
+    }
+  };
+
+  const getNavigationTitle = (label: string, instance: ShiftInstance | undefined, key: string) =>
+    instance ? `${label}: ${instance.shift.name}, ${instance.date} (${key})` : `No ${label.toLowerCase()}`;
+
+  // Navigation arrows surround the shift list in both display modes
+  const previousButton = showNavigation && (
+    <button
+      className={cx(styles.todayButton, styles.navButton)}
+      onClick={() => onNavigate(previousInstance)}
+      disabled={!previousInstance}
+      aria-label="Previous shift"
+      title={getNavigationTitle('Previous shift', previousInstance, '←')}
+    >
+      <Icon name="angle-left" />
+    </button>
+  );
+  const nextButton = showNavigation && (
+    <button
+      className={cx(styles.todayButton, styles.navButton)}
+      onClick={() => onNavigate(nextInstance)}
+      disabled={!nextInstance}
+      aria-label="Next shift"
+      title={getNavigationTitle('Next shift', nextInstance, '→')}
+    >
+      <Icon name="angle-right" />
+    </button>
+  );
+
+  // Shown when the dashboard time range does not match any shift
+  const customRangeBadge = customRange && !selectedShift && !fullDaySelected && (
+    <span className={styles.customRangeBadge}>
+      <Icon name="clock-nine" size="sm" />
+      Custom range
+    </span>
+  );
+
+  // Follow-live toggle is shared by both display modes
+  const liveToggle = showLiveToggle && (
+    <button
+      className={cx(styles.todayButton, { [styles.liveActive]: followLive })}
+      onClick={() => setFollowLive(!followLive)}
+      aria-pressed={followLive}
+      title={followLive ? 'Following the running shift' : 'Follow the running shift'}
+    >
+      <Icon name={followLive ? 'pause' : 'play'} />
+      Live
+    </button>
+  );
+
+  // Only shifts whose weekday schedule matches the selected date are offered, with exceptions applied
+  const visibleShifts = getShiftsForDate(shifts, selectedDate, exceptions);
+  const noShiftsForDate = (
+    <div className={styles.noShifts}>
+      <Icon name="info-circle" />
+      <span>No shifts scheduled on {dayjs(selectedDate).format('dddd')}.</span>
+    </div>
+  );
+
+  // Times of the full day entry; misconfigured shifts report errors on click instead
+  const getFullDayTimes = (): string | null => {
+    try {
+      const range = getFullDayRange(shifts, timezone, selectedDate, exceptions, dstPolicy);
+      return range ? formatTimeRange(range.from, range.to, timezone) : null;
+    } catch {
+      return null;
+    }
+  };
+  const fullDayTimes = showFullDay ? getFullDayTimes() : null;
+  const fullDayLabel = `${FULL_DAY_OPTION.name} (${fullDayTimes})`;
+
+  // Shift instances running right now, wherever their production date lies
+  const getRunningInstances = (): ShiftInstance[] => {
+    try {
+      const now = Date.now();
+      return getLiveInstances(shifts, timezone, productionDayStart, exceptions, dstPolicy, now).filter(
+        (instance) => instance.from <= now && now < instance.to
+      );
+    } catch {
+      return [];
+    }
+  };
+  const runningInstances = getRunningInstances();
+
+  // Whether the shift is running right now on the selected production day
+  const isRunning = (shift: ScheduledShift): boolean =>
+    runningInstances.some((instance) => instance.shift.name === shift.name && instance.date === selectedDate);
+
+  // Label helper shared by the dropdown options and the selected value
+  const getShiftLabel = (shift: ScheduledShift) => {
+    const crew = getShiftCrew(shift, rotation, selectedDate);
+    const note = shift.exception?.note ? ` · ${shift.exception.note}` : '';
+    if (isShiftCancelled(shift)) {
+      return `${shift.name} (cancelled${note})`;
+    }
+    return `${shift.name} (${formatShiftTimes(shift)})${crew ? ` · Crew ${crew}` : ''}${note}${
+      isRunning(shift) ? ' · Now' : ''
+    }`;
+  };
+
+  // DST warning text for shift instances crossing a transition; misconfigured shifts report errors on click instead
+  const getDstWarning = (shift: ScheduledShift): string | null => {
+    if (isShiftCancelled(shift)) {
+      return null;
+    }
+    try {
+      const { crossesTransition, durationMs } = getShiftDstInfo(shift, timezone, selectedDate, dstPolicy);
+      return crossesTransition ? `DST transition: actual duration ${formatDuration(durationMs)}` : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Net working time next to gross length, only for shifts with breaks
+  const getWorkingTimeLabel = (shift: ScheduledShift): string | null => {
+    if (!shift.breaks || shift.breaks.length === 0) {
+      return null;
+    }
+    try {
+      const { grossMs, netMs } = getShiftWorkingTime(shift, timezone, selectedDate, dstPolicy);
+      return `Net ${formatDuration(netMs)} / Gross ${formatDuration(grossMs)}`;
+    } catch {
+      return null;
+    }
+  };
+
+  // Tooltip helper for shift buttons
+  const getShiftTitle = (shift: ScheduledShift) => {
+    const crew = getShiftCrew(shift, rotation, selectedDate);
+    const note = shift.exception?.note ? ` - ${shift.exception.note}` : '';
+    if (isShiftCancelled(shift)) {
+      return `${shift.name}: cancelled${note}`;
+    }
+    const workingTime = getWorkingTimeLabel(shift);
+    const dstWarning = getDstWarning(shift);
+    return `${shift.name}: ${formatShiftTimes(shift)}${crew ? ` (Crew ${crew})` : ''}${note}${
+      workingTime ? ` · ${workingTime}` : ''
+    }${dstWarning ? ` · ${dstWarning}` : ''}`;
   };
 
   // Show error message if there's an error
@@ -92,16 +769,23 @@ const SimplePanelContent: React.FC<Props> = ({ options, onChangeTimeRange }) =>
 
   // Dropdown mode with enhanced styling
   if (displayMode === 'dropdown') {
-    const selectOptions = shifts.map((s) => ({
-      label: `${s.name} (${s.start} - ${s.end})`,
+    const selectOptions = visibleShifts.map((s) => ({
+      label: getShiftLabel(s),
       value: s,
+      isDisabled: isShiftCancelled(s),
     }));
-    const selectedValue = selectedShift
+    if (fullDayTimes) {
+      selectOptions.push({ label: fullDayLabel, value: FULL_DAY_OPTION, isDisabled: false });
+    }
+    const selectedValue = fullDaySelected
+      ? { label: fullDayLabel, value: FULL_DAY_OPTION }
+      : selectedShift
       ? {
-          label: `${selectedShift.name} (${selectedShift.start} - ${selectedShift.end})`,
+          label: getShiftLabel(selectedShift),
           value: selectedShift,
         }
       : undefined;
+    const selectedDstWarning = selectedShift ? getDstWarning(selectedShift) : null;
 
     const dropdownStyles = css`
       [data-theme='dark'] & {
@@ -133,58 +817,50 @@ const SimplePanelContent: React.FC<Props> = ({ options, onChangeTimeRange }) =>
     `;
 
     return (
-      <div className={cx(styles.dropdownContainer, dropdownStyles)}>
+      <div className={cx(styles.dropdownContainer, dropdownStyles)} onKeyDown={onKeyDown}>
         <div className={styles.mainRow}>
-          {showDatePicker && (
-            <div className={styles.datePickerSection}>
-              <div className={styles.datePickerLabel}>
-                <Icon name="calendar-alt" />
-                <span>Date:</span>
-              </div>
-              <div className={styles.dateInput}>
-                <input
-                  type="date"
-                  value={selectedDate}
-                  onChange={(e) => {
-                    setSelectedDate(e.currentTarget.value);
-                    setSelectedShift(null);
-                  }}
-                  className={styles.nativeInput}
-                  style={{ colorScheme: 'light dark' }}
-                  data-date-format="yyyy-mm-dd"
-                  placeholder="YYYY-MM-DD"
-                  title={`Selected: ${selectedDate}`}
-                />
-              </div>
-              <button className={styles.todayButton} onClick={onTodayClick}>
-                <Icon name="sync" />
-                Today
-              </button>
-            </div>
-          )}
-          <div className={styles.selectWrapper}>
-            {/* TODO: Migrate to Combobox when stable
+          {datePicker}
+          {liveToggle}
+          {previousButton}
+          {visibleShifts.length === 0 ? (
+            noShiftsForDate
+          ) : (
+            <div className={styles.selectWrapper}>
+              {/* TODO: Migrate to Combobox when stable
                 Currently using deprecated Select component because:
                 1. Combobox migration is still ongoing in Grafana core (see grafana/grafana#94681)
                 2. Our use case requires complex Shift objects as values with SelectableValue<Shift>
                 3. Combobox API differs significantly and requires value mapping
                 4. Select is still functional and widely used in existing plugins
                 Migration tracked in issue #3 */}
-            {/* eslint-disable-next-line @typescript-eslint/no-deprecated */}
-            <Select
-              options={selectOptions}
-              value={selectedValue}
-              onChange={(selectable) => onShiftClick(selectable.value!)}
-              placeholder="Select a shift..."
-              prefix={
-                selectedValue ? (
-                  <Icon name={getShiftIcon(selectedValue.value.name) as any} />
-                ) : (
-                  <Icon name="clock-nine" />
-                )
-              }
-            />
-          </div>
+              {/* eslint-disable-next-line @typescript-eslint/no-deprecated */}
+              <Select
+                options={selectOptions}
+                value={selectedValue}
+                onChange={(selectable) =>
+                  selectable.value === FULL_DAY_OPTION ? onFullDayClick() : onShiftClick(selectable.value!)
+                }
+                placeholder="Select a shift..."
+                prefix={
+                  selectedValue?.value === FULL_DAY_OPTION ? (
+                    <Icon name="calendar-alt" />
+                  ) : selectedValue ? (
+                    <Icon name={getShiftIcon(selectedValue.value.name) as any} />
+                  ) : (
+                    <Icon name="clock-nine" />
+                  )
+                }
+              />
+            </div>
+          )}
+          {customRangeBadge}
+          {nextButton}
+          {selectedDstWarning && (
+            <span className={styles.dstBadge} title={selectedDstWarning} aria-label={selectedDstWarning}>
+              <Icon name="exclamation-triangle" size="sm" />
+              DST
+            </span>
+          )}
         </div>
       </div>
     );
@@ -235,61 +911,75 @@ const SimplePanelContent: React.FC<Props> = ({ options, onChangeTimeRange }) =>
   `;
 
   return (
-    <div className={cx(styles.container, buttonStyles)}>
+    <div className={cx(styles.container, buttonStyles)} onKeyDown={onKeyDown}>
       <div className={styles.mainRow}>
-        {showDatePicker && (
-          <div className={styles.datePickerSection}>
-            <div className={styles.datePickerLabel}>
-              <Icon name="calendar-alt" />
-              <span>Date:</span>
-            </div>
-            <div className={styles.dateInput}>
-              <input
-                type="date"
-                value={selectedDate}
-                onChange={(e) => {
-                  setSelectedDate(e.currentTarget.value);
-                  setSelectedShift(null);
-                }}
-                className={styles.nativeInput}
-                style={{ colorScheme: 'light dark' }}
-                data-date-format="yyyy-mm-dd"
-                placeholder="YYYY-MM-DD"
-                title={`Selected: ${selectedDate}`}
-              />
-            </div>
-            <button className={styles.todayButton} onClick={onTodayClick}>
-              <Icon name="sync" />
-              Today
-            </button>
-          </div>
-        )}
+        {datePicker}
+        {liveToggle}
+        {previousButton}
+        {visibleShifts.length === 0 && noShiftsForDate}
         <div className={styles.buttonGroup}>
-          {shifts.map((shift, index) => {
+          {visibleShifts.map((shift, index) => {
             const isSelected = selectedShift?.name === shift.name;
             const icon = getShiftIcon(shift.name);
+            const crew = getShiftCrew(shift, rotation, selectedDate);
+            const cancelled = isShiftCancelled(shift);
+            const dstWarning = getDstWarning(shift);
+            const running = isRunning(shift);
 
             return (
               <button
                 key={index}
-                className={cx(styles.shiftButton, { [styles.active]: isSelected })}
+                className={cx(styles.shiftButton, {
+                  [styles.active]: isSelected,
+                  [styles.cancelled]: cancelled,
+                  [styles.exceptionShift]: !!shift.exception && !cancelled,
+                  [styles.running]: running,
+                })}
                 onClick={() => onShiftClick(shift)}
+                disabled={cancelled}
                 aria-pressed={isSelected}
-                title={`${shift.name}: ${shift.start} - ${shift.end}`}
+                title={getShiftTitle(shift)}
               >
                 <span className={styles.icon}>
                   <Icon name={icon as any} />
                 </span>
                 <div className={styles.shiftInfo}>
                   <span className={styles.shiftName}>{shift.name}</span>
-                  <span className={styles.shiftTime}>
-                    {shift.start} - {shift.end}
-                  </span>
+                  <span className={styles.shiftTime}>{formatShiftTimes(shift)}</span>
+                  {running && <span className={styles.runningBadge}>Now</span>}
+                  {crew && !cancelled && <span className={styles.crewBadge}>{crew}</span>}
+                  {dstWarning && (
+                    <span className={styles.dstBadge} aria-label={dstWarning}>
+                      <Icon name="exclamation-triangle" size="sm" />
+                      DST
+                    </span>
+                  )}
+                  {shift.exception && (
+                    <span className={styles.exceptionLabel}>{getExceptionLabel(shift.exception)}</span>
+                  )}
                 </div>
               </button>
             );
           })}
+          {fullDayTimes && (
+            <button
+              className={cx(styles.shiftButton, styles.fullDayButton, { [styles.active]: fullDaySelected })}
+              onClick={onFullDayClick}
+              aria-pressed={fullDaySelected}
+              title={`${FULL_DAY_OPTION.name}: ${fullDayTimes}`}
+            >
+              <span className={styles.icon}>
+                <Icon name="calendar-alt" />
+              </span>
+              <div className={styles.shiftInfo}>
+                <span className={styles.shiftName}>{FULL_DAY_OPTION.name}</span>
+                <span className={styles.shiftTime}>{fullDayTimes}</span>
+              </div>
+            </button>
+          )}
         </div>
+        {customRangeBadge}
+        {nextButton}
       </div>
     </div>
   );
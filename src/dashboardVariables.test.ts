@@ -0,0 +1,155 @@
+import { locationService } from '@grafana/runtime';
+import {
+  formatBreaksVariable,
+  getShiftVariableValues,
+  getPanelUrlState,
+  setDashboardTimeRange,
+  setDashboardVariables,
+  setPanelUrlState,
+} from './dashboardVariables';
+
+jest.mock('@grafana/runtime', () => ({
+  locationService: { partial: jest.fn(), getSearchObject: jest.fn(() => ({})) },
+}));
+
+describe('dashboardVariables', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('formatBreaksVariable', () => {
+    const breaks = [
+      { from: Date.UTC(2025, 0, 15, 9, 0), to: Date.UTC(2025, 0, 15, 9, 15) },
+      { from: Date.UTC(2025, 0, 15, 12, 0), to: Date.UTC(2025, 0, 15, 12, 30) },
+    ];
+
+    it('should format breaks as JSON epoch pairs', () => {
+      expect(formatBreaksVariable(breaks, 'json')).toBe(
+        `[[${breaks[0].from},${breaks[0].to}],[${breaks[1].from},${breaks[1].to}]]`
+      );
+      expect(formatBreaksVariable([], 'json')).toBe('[]');
+    });
+
+    it('should format breaks as a SQL NOT BETWEEN clause in UTC', () => {
+      expect(formatBreaksVariable(breaks, 'sql')).toBe(
+        "time NOT BETWEEN '2025-01-15 09:00:00' AND '2025-01-15 09:15:00' AND " +
+          "time NOT BETWEEN '2025-01-15 12:00:00' AND '2025-01-15 12:30:00'"
+      );
+    });
+
+    it('should use the configured SQL column', () => {
+      expect(formatBreaksVariable(breaks.slice(0, 1), 'sql', '"timestamp"')).toBe(
+        `"timestamp" NOT BETWEEN '2025-01-15 09:00:00' AND '2025-01-15 09:15:00'`
+      );
+    });
+
+    it('should return an always-true SQL clause without breaks', () => {
+      expect(formatBreaksVariable([], 'sql')).toBe('1=1');
+    });
+  });
+
+  describe('getShiftVariableValues', () => {
+    const selection = {
+      name: 'Night',
+      date: '2025-01-15',
+      from: 1736974800000,
+      to: 1737003600000,
+      index: 3,
+      crew: 'B',
+    };
+
+    it('should map the selection to the configured variable names', () => {
+      expect(
+        getShiftVariableValues(
+          {
+            name: 'shift_name',
+            date: 'shift_date',
+            start: 'shift_start',
+            end: 'shift_end',
+            index: 'shift_index',
+            crew: 'crew',
+          },
+          selection
+        )
+      ).toEqual({
+        shift_name: 'Night',
+        shift_date: '2025-01-15',
+        shift_start: '1736974800000',
+        shift_end: '1737003600000',
+        shift_index: '3',
+        crew: 'B',
+      });
+    });
+
+    it('should skip variables without a name', () => {
+      expect(getShiftVariableValues({ name: 'shift_name', crew: '' }, selection)).toEqual({ shift_name: 'Night' });
+    });
+
+    it('should publish empty strings for missing values', () => {
+      expect(
+        getShiftVariableValues(
+          { index: 'shift_index', crew: 'crew' },
+          { name: 'Full day', date: '2025-01-15', from: 0, to: 1 }
+        )
+      ).toEqual({ shift_index: '', crew: '' });
+    });
+  });
+
+  describe('setDashboardVariables', () => {
+    it('should write values as var- URL parameters without adding history entries', () => {
+      setDashboardVariables({ breaks: '[]', shift_name: 'Night' });
+
+      expect(locationService.partial).toHaveBeenCalledWith({ 'var-breaks': '[]', 'var-shift_name': 'Night' }, true);
+    });
+
+    it('should skip entries without a variable name', () => {
+      setDashboardVariables({ '': 'ignored' });
+
+      expect(locationService.partial).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setDashboardTimeRange', () => {
+    it('should write the time range to the URL', () => {
+      setDashboardTimeRange(1736928000000, 'now');
+
+      expect(locationService.partial).toHaveBeenCalledWith({ from: '1736928000000', to: 'now' });
+    });
+  });
+
+  describe('getPanelUrlState', () => {
+    it('should read the shift and date of the panel', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-2': 'Night',
+        'shiftDate-2': '2026-10-12',
+        'shift-3': 'Day',
+      });
+
+      expect(getPanelUrlState(2)).toEqual({ shift: 'Night', date: '2026-10-12' });
+    });
+
+    it('should ignore missing, empty and malformed values', () => {
+      (locationService.getSearchObject as jest.Mock).mockReturnValueOnce({
+        'shift-2': '',
+        'shiftDate-2': '2026-13-45',
+      });
+
+      expect(getPanelUrlState(2)).toEqual({ shift: undefined, date: undefined });
+      expect(getPanelUrlState(2)).toEqual({ shift: undefined, date: undefined });
+    });
+  });
+
+  describe('setPanelUrlState', () => {
+    it('should write the shift and date of the panel without adding history entries', () => {
+      setPanelUrlState(2, 'Night', '2026-10-12');
+
+      expect(locationService.partial).toHaveBeenCalledWith({ 'shift-2': 'Night', 'shiftDate-2': '2026-10-12' }, true);
+    });
+
+    it('should remove the shift parameter without a shift', () => {
+      setPanelUrlState(2, undefined, '2026-10-12');
+
+      expect(locationService.partial).toHaveBeenCalledWith({ 'shift-2': undefined, 'shiftDate-2': '2026-10-12' }, true);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { locationService } from '@grafana/runtime';
+import dayjs from 'dayjs';
+import { ShiftVariableNames } from './types';
+import utc from 'dayjs/plugin/utc';
+
+dayjs.extend(utc);
+
+/**
+ * Formats break windows for a dashboard variable.
+ * - 'json': array of [from, to] epoch millisecond pairs, e.g. [[1736935200000,1736937000000]]
+ * - 'sql': clause excluding every break, e.g. time NOT BETWEEN '2025-01-15 10:00:00' AND '2025-01-15 10:30:00'
+ *   Times are UTC. Without breaks the clause is "1=1" so "WHERE ... AND $breaks" stays valid.
+ *
+ * @param breaks - Break windows as UTC epoch milliseconds
+ * @param format - Output format
+ * @param column - Time column (or expression) used in the SQL clause
+ * @returns Variable value
+ */
+export const formatBreaksVariable = (
+  breaks: Array<{ from: number; to: number }>,
+  format: 'json' | 'sql' = 'json',
+  column = 'time'
+): string => {
+  if (format === 'json') {
+    return JSON.stringify(breaks.map((b) => [b.from, b.to]));
+  }
+
+  if (breaks.length === 0) {
+    return '1=1';
+  }
+
+  const toSql = (ms: number) => `'${dayjs.utc(ms).format('YYYY-MM-DD HH:mm:ss')}'`;
+  return breaks.map((b) => `${column} NOT BETWEEN ${toSql(b.from)} AND ${toSql(b.to)}`).join(' AND ');
+};
+
+/**
+ * Maps the selected shift to the configured dashboard variables.
+ * Only variables with a name are included; missing values become empty strings.
+ *
+ * @param names - Configured variable names
+ * @param selection - The selected shift instance
+ * @returns Map of variable name to value
+ */
+export const getShiftVariableValues = (
+  names: ShiftVariableNames,
+  selection: { name: string; date: string; from: number; to: number; index?: number; crew?: string }
+): Record<string, string> => {
+  const values: Record<keyof ShiftVariableNames, string> = {
+    name: selection.name,
+    date: selection.date,
+    start: String(selection.from),
+    end: String(selection.to),
+    index: selection.index !== undefined ? String(selection.index) : '',
+    crew: selection.crew ?? '',
+  };
+
+  const result: Record<string, string> = {};
+  (Object.keys(values) as Array<keyof ShiftVariableNames>).forEach((key) => {
+    const name = names[key];
+    if (name) {
+      result[name] = values[key];
+    }
+  });
+  return result;
+};
+
+/**
+ * Writes values to dashboard template variables through the URL ("var-<name>" parameters).
+ * Grafana picks the new values up and re-runs queries that use them. Entries without a
+ * variable name are skipped.
+ *
+ * @param values - Map of variable name to value
+ */
+export const setDashboardVariables = (values: Record<string, string>): void => {
+  const query: Record<string, string> = {};
+  Object.entries(values).forEach(([name, value]) => {
+    if (name) {
+      query[`var-${name}`] = value;
+    }
+  });
+
+  if (Object.keys(query).length > 0) {
+    locationService.partial(query, true);
+  }
+};
+
+/**
+ * Sets the dashboard time range through the URL. Unlike onChangeTimeRange this accepts
+ * a raw "now" as the end, so the range keeps growing with every dashboard refresh.
+ *
+ * @param from - Range start (UTC epoch milliseconds)
+ * @param to - Range end (UTC epoch milliseconds) or "now"
+ */
+export const setDashboardTimeRange = (from: number, to: number | 'now'): void => {
+  locationService.partial({ from: String(from), to: String(to) });
+};
+
+// URL parameters holding a panel's selection; the panel id keeps several shift panels on one dashboard apart
+const shiftParam = (panelId: number) => `shift-${panelId}`;
+const dateParam = (panelId: number) => `shiftDate-${panelId}`;
+
+/**
+ * Reads the selected shift and date of a panel from the URL, e.g. "?shift-2=Night&shiftDate-2=2026-10-12".
+ * Malformed dates are ignored.
+ *
+ * @param panelId - Id of the panel
+ * @returns The shift name and date found in the URL
+ */
+export const getPanelUrlState = (panelId: number): { shift?: string; date?: string } => {
+  const query = locationService.getSearchObject();
+  const shift = query[shiftParam(panelId)];
+  const date = query[dateParam(panelId)];
+
+  return {
+    shift: typeof shift === 'string' && shift !== '' ? shift : undefined,
+    date: typeof date === 'string' && dayjs.utc(date).format('YYYY-MM-DD') === date ? date : undefined,
+  };
+};
+
+/**
+ * Writes the selected shift and date of a panel to the URL, so links restore the selection.
+ * Without a shift the shift parameter is removed.
+ *
+ * @param panelId - Id of the panel
+ * @param shift - Name of the selected shift, if any
+ * @param date - Selected date (YYYY-MM-DD)
+ */
+export const setPanelUrlState = (panelId: number, shift: string | undefined, date: string): void => {
+  locationService.partial({ [shiftParam(panelId)]: shift, [dateParam(panelId)]: date }, true);
+};
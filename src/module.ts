@@ -2,6 +2,8 @@ import { PanelPlugin } from '@grafana/data';
 import { SimpleOptions } from './types';
 import { SimplePanel } from './components/SimplePanel';
 import { SimpleEditor } from './components/SimpleEditor';
+import { RotationEditor } from './components/RotationEditor';
+import { ExceptionsEditor } from './components/ExceptionsEditor';
 
 export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOptions((builder) => {
   return builder
@@ -23,6 +25,12 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       description: 'Enable calendar date picker in the panel',
       defaultValue: true,
     })
+    .addBooleanSwitch({
+      path: 'showFullDay',
+      name: 'Show full day',
+      description: 'Add a "Full day" entry spanning from the start of the first shift to the end of the last one',
+      defaultValue: false,
+    })
     .addSelect({
       path: 'timezone',
       name: 'Business Timezone',
@@ -103,6 +111,224 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
         ],
       },
     })
+    .addRadio({
+      path: 'autoSelect',
+      name: 'Select on load',
+      description: 'Shift whose time range is applied when the dashboard loads, e.g. for wallboards',
+      defaultValue: 'none',
+      settings: {
+        options: [
+          { value: 'none', label: 'Nothing' },
+          { value: 'current', label: 'Current shift' },
+          { value: 'previous', label: 'Previous shift' },
+        ],
+      },
+    })
+    .addBooleanSwitch({
+      path: 'shiftToDate',
+      name: 'Shift-to-date for running shifts',
+      description:
+        'Select the running shift from its start to "now", so dashboard refresh keeps showing new data. Finished shifts keep absolute ranges',
+      defaultValue: false,
+    })
+    .addBooleanSwitch({
+      path: 'showNavigation',
+      name: 'Show previous/next arrows',
+      description:
+        'Step through shifts one by one, moving across dates automatically. The arrow keys do the same while the panel has focus',
+      defaultValue: false,
+    })
+    .addBooleanSwitch({
+      path: 'showLiveToggle',
+      name: 'Show follow-live toggle',
+      description: 'Show a Live button that keeps the running shift selected and advances at every shift change',
+      defaultValue: false,
+    })
+    .addBooleanSwitch({
+      path: 'followLive',
+      name: 'Follow live by default',
+      description: 'Start in follow-live mode, e.g. for control-room screens',
+      defaultValue: false,
+    })
+    .addTextInput({
+      path: 'productionDayStart',
+      name: 'Production day start',
+      description:
+        'Time (HH:mm, business timezone) at which a production day begins. Drives the default date and the Today button, e.g. 06:00 keeps the night shift on the previous day until 06:00',
+      defaultValue: '00:00',
+      settings: {
+        placeholder: '06:00',
+      },
+    })
+    .addTextInput({
+      path: 'selectedDate',
+      name: 'Default date',
+      description:
+        'Date the panel opens on: YYYY-MM-DD, today, yesterday, today-1, last monday or next friday, evaluated in the business timezone. Empty = today',
+      settings: {
+        placeholder: 'today-1',
+      },
+    })
+    .addRadio({
+      path: 'dstPolicy',
+      name: 'DST transitions',
+      description:
+        'How shift boundaries inside a daylight saving change (e.g., 02:30 on spring-forward night) are resolved',
+      defaultValue: 'earlier',
+      settings: {
+        options: [
+          { value: 'earlier', label: 'Earlier offset', description: 'Use the UTC offset before the transition' },
+          { value: 'later', label: 'Later offset', description: 'Use the UTC offset after the transition' },
+          { value: 'duration', label: 'Keep duration', description: 'Keep the wall-clock shift length' },
+        ],
+      },
+    })
+    .addTextInput({
+      path: 'variables.name',
+      name: 'Shift name variable',
+      description: 'Receives the name of the selected shift. Leave empty to disable.',
+      category: ['Dashboard variables'],
+      settings: {
+        placeholder: 'shift_name',
+      },
+    })
+    .addTextInput({
+      path: 'variables.date',
+      name: 'Shift date variable',
+      description: 'Receives the production date (YYYY-MM-DD). Leave empty to disable.',
+      category: ['Dashboard variables'],
+      settings: {
+        placeholder: 'shift_date',
+      },
+    })
+    .addTextInput({
+      path: 'variables.start',
+      name: 'Shift start variable',
+      description: 'Receives the shift start as epoch milliseconds. Leave empty to disable.',
+      category: ['Dashboard variables'],
+      settings: {
+        placeholder: 'shift_start',
+      },
+    })
+    .addTextInput({
+      path: 'variables.end',
+      name: 'Shift end variable',
+      description: 'Receives the shift end as epoch milliseconds. Leave empty to disable.',
+      category: ['Dashboard variables'],
+      settings: {
+        placeholder: 'shift_end',
+      },
+    })
+    .addTextInput({
+      path: 'variables.index',
+      name: 'Shift index variable',
+      description: 'Receives the 1-based position of the shift in the shift list. Leave empty to disable.',
+      category: ['Dashboard variables'],
+      settings: {
+        placeholder: 'shift_index',
+      },
+    })
+    .addTextInput({
+      path: 'variables.crew',
+      name: 'Crew variable',
+      description: 'Receives the crew on duty (requires a crew rotation). Leave empty to disable.',
+      category: ['Dashboard variables'],
+      settings: {
+        placeholder: 'shift_crew',
+      },
+    })
+    .addTextInput({
+      path: 'breaksVariable',
+      name: 'Breaks variable',
+      description:
+        'Dashboard variable that receives the break windows of the selected shift (e.g., "breaks"). Leave empty to disable.',
+      defaultValue: '',
+    })
+    .addRadio({
+      path: 'breaksVariableFormat',
+      name: 'Breaks variable format',
+      description: 'Epoch millisecond [from, to] pairs as JSON, or a SQL clause excluding every break',
+      defaultValue: 'json',
+      settings: {
+        options: [
+          { value: 'json', label: 'JSON pairs' },
+          { value: 'sql', label: 'SQL NOT BETWEEN' },
+        ],
+      },
+      showIf: (options) => !!options.breaksVariable,
+    })
+    .addTextInput({
+      path: 'breaksSqlColumn',
+      name: 'Breaks SQL column',
+      description: 'Time column used in the generated SQL clause',
+      defaultValue: 'time',
+      showIf: (options) => !!options.breaksVariable && options.breaksVariableFormat === 'sql',
+    })
+    .addRadio({
+      path: 'shiftsSource',
+      name: 'Shifts source',
+      description:
+        'Configure shifts by hand, load them from the panel query (one row per shift), or from JSON/CSV text such as a dashboard variable',
+      defaultValue: 'manual',
+      settings: {
+        options: [
+          { value: 'manual', label: 'Shift list' },
+          { value: 'data', label: 'Query results' },
+          { value: 'text', label: 'Variable / text' },
+        ],
+      },
+    })
+    .addTextInput({
+      path: 'shiftsText',
+      name: 'Shift definitions',
+      description:
+        'JSON array of shifts or CSV with a header row (name,start,end,duration,dateOffset,weekdays). Dashboard variables are interpolated, so ${shift_plan} shares one plan across panels',
+      showIf: (config) => config.shiftsSource === 'text',
+      settings: {
+        useTextarea: true,
+        rows: 6,
+        placeholder: '${shift_plan}',
+      },
+    })
+    .addFieldNamePicker({
+      path: 'shiftFields.name',
+      name: 'Name field',
+      description: 'Field holding the shift name. Empty = detected by field name',
+      showIf: (config) => config.shiftsSource === 'data',
+    })
+    .addFieldNamePicker({
+      path: 'shiftFields.start',
+      name: 'Start field',
+      description: 'Field holding the start time (HH:mm or SQL TIME). Empty = detected by field name',
+      showIf: (config) => config.shiftsSource === 'data',
+    })
+    .addFieldNamePicker({
+      path: 'shiftFields.end',
+      name: 'End field',
+      description: 'Field holding the end time (HH:mm or SQL TIME). Empty = detected by field name',
+      showIf: (config) => config.shiftsSource === 'data',
+    })
+    .addFieldNamePicker({
+      path: 'shiftFields.duration',
+      name: 'Duration field',
+      description:
+        'Optional: field holding the length in H:mm, taking precedence over the end time. Empty = detected by field name',
+      showIf: (config) => config.shiftsSource === 'data',
+    })
+    .addFieldNamePicker({
+      path: 'shiftFields.dateOffset',
+      name: 'Date offset field',
+      description:
+        'Optional: field holding the days to add to or subtract from the selected date. Empty = detected by field name',
+      showIf: (config) => config.shiftsSource === 'data',
+    })
+    .addFieldNamePicker({
+      path: 'shiftFields.weekdays',
+      name: 'Weekdays field',
+      description:
+        'Optional: field holding a weekday number (0 = Sunday) or a list such as "1,2,3" or "Mon,Tue". Rows of the same shift are merged. Empty = detected by field name',
+      showIf: (config) => config.shiftsSource === 'data',
+    })
     .addCustomEditor({
       id: 'shiftsEditor',
       path: 'shifts',
@@ -110,5 +336,22 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       description: 'Configure work shifts',
       defaultValue: [],
       editor: SimpleEditor,
+      showIf: (config) => !config.shiftsSource || config.shiftsSource === 'manual',
+    })
+    .addCustomEditor({
+      id: 'rotationEditor',
+      path: 'rotation',
+      name: 'Crew rotation',
+      description: 'Rotate crews through the shifts on a fixed multi-day cycle',
+      defaultValue: undefined,
+      editor: RotationEditor,
+    })
+    .addCustomEditor({
+      id: 'exceptionsEditor',
+      path: 'exceptions',
+      name: 'Exceptions',
+      description: 'Cancel, change or add shifts on specific dates such as public holidays',
+      defaultValue: [],
+      editor: ExceptionsEditor,
     });
 });
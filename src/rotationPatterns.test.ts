@@ -0,0 +1,59 @@
+import { ROTATION_PATTERNS, buildRotationAssignments } from './rotationPatterns';
+
+describe('rotationPatterns', () => {
+  describe('ROTATION_PATTERNS', () => {
+    it.each(ROTATION_PATTERNS.map((p) => [p.id, p]))('%s should staff every slot exactly once a day', (_, pattern) => {
+      const crews = Object.values(pattern.crews);
+      const codes = pattern.slots.map((slot) => slot.code);
+
+      crews.forEach((sequence) => expect(sequence).toHaveLength(pattern.cycleLength));
+      crews.forEach((sequence) => expect([...sequence].every((c) => c === 'O' || codes.includes(c))).toBe(true));
+
+      for (let day = 0; day < pattern.cycleLength; day++) {
+        const slots = crews.map((sequence) => sequence[day]);
+        codes.forEach((code) => expect(slots.filter((slot) => slot === code)).toHaveLength(1));
+      }
+    });
+
+    it('should give every crew the same number of shifts per cycle', () => {
+      ROTATION_PATTERNS.forEach((pattern) => {
+        const worked = Object.values(pattern.crews).map((sequence) => sequence.replace(/O/g, '').length);
+        expect(new Set(worked).size).toBe(1);
+      });
+    });
+  });
+
+  describe('buildRotationAssignments', () => {
+    it('should map the pattern slots to the given shifts', () => {
+      const pattern = ROTATION_PATTERNS.find((p) => p.id === '4on4off')!;
+
+      const result = buildRotationAssignments(pattern, ['Day', 'Night']);
+
+      expect(result).toEqual([
+        { shift: 'Day', crews: ['A', 'A', 'A', 'A', 'C', 'C', 'C', 'C'] },
+        { shift: 'Night', crews: ['B', 'B', 'B', 'B', 'D', 'D', 'D', 'D'] },
+      ]);
+    });
+
+    it('should map the continental slots to three shifts', () => {
+      const pattern = ROTATION_PATTERNS.find((p) => p.id === 'continental')!;
+
+      const result = buildRotationAssignments(pattern, ['Early', 'Late', 'Night', 'Extra']);
+
+      expect(result.map((assignment) => assignment.shift)).toEqual(['Early', 'Late', 'Night']);
+      expect(result[0].crews.slice(0, 8)).toEqual(['A', 'A', 'A', 'A', 'A', 'A', 'A', 'D']);
+      result.forEach((assignment) => expect(assignment.crews.every((crew) => crew !== '')).toBe(true));
+    });
+
+    it('should produce a crew for every cycle day of DuPont', () => {
+      const pattern = ROTATION_PATTERNS.find((p) => p.id === 'dupont')!;
+
+      const [day, night] = buildRotationAssignments(pattern, ['Day', 'Night']);
+
+      expect(day.crews).toHaveLength(28);
+      expect(day.crews.every((crew) => crew !== '')).toBe(true);
+      expect(night.crews.every((crew) => crew !== '')).toBe(true);
+      expect(night.crews.slice(0, 4)).toEqual(['A', 'A', 'A', 'A']);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { RotationAssignment } from './types';
+
+/**
+ * A well-known crew rotation, for two 12-hour shifts (day/night) or three 8-hour shifts (early/late/night).
+ * Each crew sequence lists one letter per cycle day: a slot code, or O = off.
+ * Slots are filled by the first shifts of the plan, in order.
+ */
+export interface RotationPattern {
+  id: string;
+  label: string;
+  description: string;
+  cycleLength: number;
+  slots: Array<{ code: string; label: string }>;
+  crews: Record<string, string>;
+}
+
+const DAY_NIGHT = [
+  { code: 'D', label: 'day' },
+  { code: 'N', label: 'night' },
+];
+
+// DuPont: 4 nights, 3 off, 3 days, 1 off, 3 nights, 3 off, 4 days, 7 off
+const DUPONT = 'NNNNOOODDDONNNOOODDDDOOOOOOO';
+
+// Panama (2-2-3): crews alternate with their partner crew on the same shift
+const PANAMA = 'DDOODDDOODDOOO';
+
+// Continental: 7 earlies, 2 off, 7 lates, 2 off, 7 nights, 3 off
+const CONTINENTAL = 'EEEEEEEOOLLLLLLLOONNNNNNNOOO';
+
+// Rotates a crew sequence so crews start at different points of the same cycle
+const shiftSequence = (sequence: string, days: number): string => sequence.slice(days) + sequence.slice(0, days);
+
+// Swaps worked and off days, producing the partner crew of a Panama sequence
+const invertSequence = (sequence: string): string => sequence.replace(/[DO]/g, (c) => (c === 'D' ? 'O' : 'D'));
+
+export const ROTATION_PATTERNS: RotationPattern[] = [
+  {
+    id: 'dupont',
+    label: 'DuPont (4 crews, 28 days)',
+    description: '12-hour shifts, alternating blocks of nights and days with a 7-day break each cycle',
+    cycleLength: 28,
+    slots: DAY_NIGHT,
+    crews: {
+      A: DUPONT,
+      B: shiftSequence(DUPONT, 7),
+      C: shiftSequence(DUPONT, 14),
+      D: shiftSequence(DUPONT, 21),
+    },
+  },
+  {
+    id: 'panama',
+    label: 'Panama 2-2-3 (4 crews, 14 days)',
+    description: '12-hour fixed shifts, working 2 on / 2 off / 3 on and the reverse the following week',
+    cycleLength: 14,
+    slots: DAY_NIGHT,
+    crews: {
+      A: PANAMA,
+      B: invertSequence(PANAMA),
+      C: PANAMA.replace(/D/g, 'N'),
+      D: invertSequence(PANAMA).replace(/D/g, 'N'),
+    },
+  },
+  {
+    id: '4on4off',
+    label: '4-on-4-off (4 crews, 8 days)',
+    description: '12-hour fixed shifts, four days on followed by four days off',
+    cycleLength: 8,
+    slots: DAY_NIGHT,
+    crews: {
+      A: 'DDDDOOOO',
+      B: 'NNNNOOOO',
+      C: 'OOOODDDD',
+      D: 'OOOONNNN',
+    },
+  },
+  {
+    id: 'continental',
+    label: 'Continental (4 crews, 28 days)',
+    description: '8-hour shifts around the clock, seven earlies, lates and nights in turn with 2, 2 and 3 days off',
+    cycleLength: 28,
+    slots: [
+      { code: 'E', label: 'early' },
+      { code: 'L', label: 'late' },
+      { code: 'N', label: 'night' },
+    ],
+    crews: {
+      A: CONTINENTAL,
+      B: shiftSequence(CONTINENTAL, 7),
+      C: shiftSequence(CONTINENTAL, 14),
+      D: shiftSequence(CONTINENTAL, 21),
+    },
+  },
+];
+
+/**
+ * Converts a rotation pattern into per-shift crew assignments.
+ *
+ * @param pattern - The rotation pattern to apply
+ * @param shiftNames - Names of the shifts taking the pattern's slots, in slot order (e.g. day, night)
+ * @returns One assignment per slot, listing the crew on duty for every cycle day
+ */
+export const buildRotationAssignments = (pattern: RotationPattern, shiftNames: string[]): RotationAssignment[] => {
+  const crewsFor = (slot: string): string[] =>
+    Array.from({ length: pattern.cycleLength }, (_, day) => {
+      const crew = Object.keys(pattern.crews).find((name) => pattern.crews[name][day] === slot);
+      return crew ?? '';
+    });
+
+  return pattern.slots.map((slot, i) => ({ shift: shiftNames[i], crews: crewsFor(slot.code) }));
+};
@@ -0,0 +1,32 @@
+import { SHIFT_PRESETS } from './shiftPresets';
+import { getShiftCoverage, getShiftInstances, validateShift } from './timeLogic';
+
+describe('shiftPresets', () => {
+  describe.each(SHIFT_PRESETS.map((p) => [p.id, p]))('%s', (_, preset) => {
+    it('should define valid shifts with unique names', () => {
+      preset.shifts.forEach((shift) => expect(validateShift(shift)).toBeNull());
+      expect(new Set(preset.shifts.map((s) => s.name)).size).toBe(preset.shifts.length);
+    });
+
+    it('should cover its working days without gaps or overlaps', () => {
+      const { gaps, overlaps } = getShiftCoverage(preset.shifts);
+      const workingDays = preset.shifts[0].weekdays ?? [0, 1, 2, 3, 4, 5, 6];
+      const gapMinutes = gaps.reduce((sum, gap) => sum + (gap.end - gap.start) * (gap.weekdays?.length ?? 7), 0);
+
+      expect(overlaps).toEqual([]);
+      // Only the days off, in one piece
+      expect(gaps.length).toBeLessThanOrEqual(1);
+      expect(gapMinutes).toBe((7 - workingDays.length) * 24 * 60);
+    });
+  });
+
+  it('should start the 3x8 working week with the Sunday night shift', () => {
+    const preset = SHIFT_PRESETS.find((p) => p.id === '3x8')!;
+    const instances = getShiftInstances(preset.shifts, 'UTC', '2025-03-03', '2025-03-07');
+
+    expect(instances).toHaveLength(15);
+    expect(new Date(instances[0].from).toISOString()).toBe('2025-03-02T22:00:00.000Z');
+    expect(new Date(instances[14].to).toISOString()).toBe('2025-03-07T22:00:00.000Z');
+    instances.slice(1).forEach((instance, i) => expect(instance.from).toBe(instances[i].to));
+  });
+});
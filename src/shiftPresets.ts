@@ -0,0 +1,69 @@
+import { Shift } from './types';
+
+/**
+ * A ready-made shift plan for a common industry pattern.
+ * Times are wall-clock times in the business timezone of the panel.
+ */
+export interface ShiftPreset {
+  id: string;
+  label: string;
+  description: string;
+  shifts: Shift[];
+}
+
+const WORKING_DAYS = [1, 2, 3, 4, 5];
+
+export const SHIFT_PRESETS: ShiftPreset[] = [
+  {
+    id: '3x8',
+    label: '3x8 (Mon-Fri)',
+    description:
+      'Three 8-hour shifts on working days. The night shift opens the production day the evening before, so the week runs from Sunday 22:00 to Friday 22:00',
+    shifts: [
+      { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1, weekdays: WORKING_DAYS },
+      { name: 'Morning', start: '06:00', end: '14:00', weekdays: WORKING_DAYS },
+      { name: 'Afternoon', start: '14:00', end: '22:00', weekdays: WORKING_DAYS },
+    ],
+  },
+  {
+    id: '2x12',
+    label: '2x12',
+    description: 'Two 12-hour shifts around the clock, the night shift ending on the following morning',
+    shifts: [
+      { name: 'Day', start: '06:00', end: '18:00' },
+      { name: 'Night', start: '18:00', end: '06:00' },
+    ],
+  },
+  {
+    id: 'continental',
+    label: 'Continental (4 crews)',
+    description:
+      'Three 8-hour shifts every day of the week, worked by four rotating crews. Apply the Continental pattern under Crew rotation',
+    shifts: [
+      { name: 'Early', start: '06:00', end: '14:00' },
+      { name: 'Late', start: '14:00', end: '22:00' },
+      { name: 'Night', start: '22:00', end: '06:00' },
+    ],
+  },
+  {
+    id: 'hospital',
+    label: 'Hospital',
+    description: 'Day, evening and night shifts with handovers at 07:00, 15:00 and 23:00',
+    shifts: [
+      { name: 'Day', start: '07:00', end: '15:00' },
+      { name: 'Evening', start: '15:00', end: '23:00' },
+      { name: 'Night', start: '23:00', end: '07:00' },
+    ],
+  },
+  {
+    id: 'follow-the-sun',
+    label: 'Follow-the-sun',
+    description:
+      'Support desk handed over between regions on working days. Times are UTC, so set the business timezone to UTC',
+    shifts: [
+      { name: 'APAC', start: '00:00', end: '08:00', weekdays: WORKING_DAYS },
+      { name: 'EMEA', start: '08:00', end: '16:00', weekdays: WORKING_DAYS },
+      { name: 'Americas', start: '16:00', end: '00:00', weekdays: WORKING_DAYS },
+    ],
+  },
+];
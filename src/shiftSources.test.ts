@@ -0,0 +1,239 @@
+import { FieldType, toDataFrame } from '@grafana/data';
+import { formatShiftsCsv, formatShiftsJson, getShiftsFromData, parseShiftPlan, parseShiftsText } from './shiftSources';
+import { Shift } from './types';
+
+describe('shiftSources', () => {
+  describe('getShiftsFromData', () => {
+    it('should build shifts from fields with known names', () => {
+      const frame = toDataFrame({
+        fields: [
+          { name: 'Name', type: FieldType.string, values: ['Morning', 'Night'] },
+          { name: 'start_time', type: FieldType.string, values: ['06:00:00', '22:00:00'] },
+          { name: 'end_time', type: FieldType.string, values: ['14:00:00', '06:00:00'] },
+          { name: 'date_offset', type: FieldType.number, values: [0, -1] },
+        ],
+      });
+
+      expect(getShiftsFromData([frame])).toEqual([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+        { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1 },
+      ]);
+    });
+
+    it('should use the field mapping', () => {
+      const frame = toDataFrame({
+        fields: [
+          { name: 'shift_label', type: FieldType.string, values: ['On-call'] },
+          { name: 'begins', type: FieldType.string, values: ['8:00'] },
+          { name: 'length', type: FieldType.string, values: ['48:00'] },
+        ],
+      });
+
+      expect(getShiftsFromData([frame], { name: 'shift_label', start: 'begins', duration: 'length' })).toEqual([
+        { name: 'On-call', start: '08:00', end: '', duration: '48:00' },
+      ]);
+    });
+
+    it('should merge rows of the same shift into a weekday schedule', () => {
+      const frame = toDataFrame({
+        fields: [
+          { name: 'name', type: FieldType.string, values: ['Day', 'Day', 'Weekend', 'Day'] },
+          { name: 'start', type: FieldType.string, values: ['06:00', '06:00', '08:00', '06:00'] },
+          { name: 'end', type: FieldType.string, values: ['18:00', '18:00', '16:00', '18:00'] },
+          { name: 'weekday', type: FieldType.string, values: ['3', 'Mon', 'Sat, Sun', '1'] },
+        ],
+      });
+
+      expect(getShiftsFromData([frame])).toEqual([
+        { name: 'Day', start: '06:00', end: '18:00', weekdays: [1, 3] },
+        { name: 'Weekend', start: '08:00', end: '16:00', weekdays: [0, 6] },
+      ]);
+    });
+
+    it('should run merged shifts every day when one row has no weekday', () => {
+      const frame = toDataFrame({
+        fields: [
+          { name: 'name', type: FieldType.string, values: ['Day', 'Day'] },
+          { name: 'start', type: FieldType.string, values: ['06:00', '06:00'] },
+          { name: 'end', type: FieldType.string, values: ['18:00', '18:00'] },
+          { name: 'weekdays', type: FieldType.number, values: [1, null] },
+        ],
+      });
+
+      expect(getShiftsFromData([frame])[0].weekdays).toBeUndefined();
+    });
+
+    it('should skip rows without a name or a valid start time', () => {
+      const frame = toDataFrame({
+        fields: [
+          { name: 'name', type: FieldType.string, values: ['Morning', '', 'Broken'] },
+          { name: 'start', type: FieldType.string, values: ['06:00', '14:00', 'soon'] },
+          { name: 'end', type: FieldType.string, values: ['14:00', '22:00', '22:00'] },
+        ],
+      });
+
+      expect(getShiftsFromData([frame]).map((s) => s.name)).toEqual(['Morning']);
+    });
+
+    it('should skip rows with weekdays that cannot be read', () => {
+      const frame = toDataFrame({
+        fields: [
+          { name: 'name', type: FieldType.string, values: ['Day', 'Day', 'Weekend'] },
+          { name: 'start', type: FieldType.string, values: ['06:00', '06:00', '08:00'] },
+          { name: 'end', type: FieldType.string, values: ['18:00', '18:00', '16:00'] },
+          { name: 'weekdays', type: FieldType.string, values: ['Mon', '7', 'Weekend'] },
+        ],
+      });
+
+      expect(getShiftsFromData([frame])).toEqual([{ name: 'Day', start: '06:00', end: '18:00', weekdays: [1] }]);
+    });
+
+    it('should read every frame and ignore frames without shift fields', () => {
+      const shiftsFrame = (name: string) =>
+        toDataFrame({
+          fields: [
+            { name: 'name', type: FieldType.string, values: [name] },
+            { name: 'start', type: FieldType.string, values: ['06:00'] },
+            { name: 'end', type: FieldType.string, values: ['14:00'] },
+          ],
+        });
+      const metricsFrame = toDataFrame({
+        fields: [
+          { name: 'time', type: FieldType.time, values: [1] },
+          { name: 'value', type: FieldType.number, values: [42] },
+        ],
+      });
+
+      expect(getShiftsFromData([shiftsFrame('A'), metricsFrame, shiftsFrame('B')]).map((s) => s.name)).toEqual([
+        'A',
+        'B',
+      ]);
+    });
+
+    it('should return no shifts without data', () => {
+      expect(getShiftsFromData([])).toEqual([]);
+    });
+  });
+
+  describe('parseShiftsText', () => {
+    it('should read a JSON array of shifts', () => {
+      expect(
+        parseShiftsText(
+          '[{"name":"Morning","start":"06:00","end":"14:00"},{"name":"On-call","start":"08:00","duration":"48:00"}]'
+        )
+      ).toEqual([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+        { name: 'On-call', start: '08:00', end: '', duration: '48:00' },
+      ]);
+    });
+
+    it('should read the shifts of exported panel options', () => {
+      expect(parseShiftsText('{"shifts":[{"name":"Day","start":"06:00","end":"18:00","weekdays":[1,2]}]}')).toEqual([
+        { name: 'Day', start: '06:00', end: '18:00', weekdays: [1, 2] },
+      ]);
+    });
+
+    it('should read CSV with a header row', () => {
+      const csv = ['Name,Start,End,Date_Offset,Weekdays', 'Morning,06:00,14:00,,', 'Night,22:00,06:00,-1,"1,2,3"'].join(
+        '\n'
+      );
+
+      expect(parseShiftsText(csv)).toEqual([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+        { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1, weekdays: [1, 2, 3] },
+      ]);
+    });
+
+    it('should accept semicolon-separated CSV', () => {
+      expect(parseShiftsText('name;start;end\r\nMorning;6:00:00;14:00:00\r\n')).toEqual([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+      ]);
+    });
+
+    it('should return no shifts for empty text', () => {
+      expect(parseShiftsText('  ')).toEqual([]);
+    });
+
+    it('should report malformed JSON', () => {
+      expect(() => parseShiftsText('[{"name":')).toThrow(/^Invalid shift JSON/);
+      expect(() => parseShiftsText('{"name":"Morning"}')).toThrow('Invalid shift JSON: expected an array of shifts');
+      expect(() => parseShiftsText('[{"name":"Morning","start":600}]')).toThrow(
+        'Invalid shift JSON: shift 1 needs "name" and "start" strings'
+      );
+      expect(() => parseShiftsText('[{"name":"Day","start":"06:00","end":"18:00","weekdays":"Mon"}]')).toThrow(
+        /weekdays/
+      );
+    });
+
+    it('should report CSV without the required columns', () => {
+      expect(() => parseShiftsText('shift_start,shift_end\n06:00,14:00')).toThrow(
+        'Invalid shift CSV: the header row needs "name" and "start" columns'
+      );
+      expect(() => parseShiftsText('name,start,end,offset\nNight,22:00,06:00,yesterday')).toThrow(
+        'Invalid shift CSV: row 1 has an invalid date offset "yesterday"'
+      );
+    });
+
+    it('should report CSV weekdays that cannot be read', () => {
+      expect(() => parseShiftsText('name,start,end,weekdays\nSun,08:00,16:00,7')).toThrow(
+        'Invalid shift CSV: row 1 has an invalid weekday "7"'
+      );
+      expect(() =>
+        parseShiftsText('name,start,end,weekdays\nDay,06:00,14:00,Mon\nWeekend,08:00,16:00,Weekend')
+      ).toThrow('Invalid shift CSV: row 2 has an invalid weekday "Weekend"');
+    });
+
+    it('should validate every shift like the time range calculation and name the malformed ones', () => {
+      expect(() =>
+        parseShiftsText(
+          '[{"name":"Morning","start":"06:00","end":"14:00"},{"name":"Late","start":"14:00","end":"25:00"},{"name":"Night","start":"22:00"}]'
+        )
+      ).toThrow(
+        'Shift 2 ("Late"): Invalid hour values: hours must be between 0 and 23\n' +
+          'Shift 3 ("Night"): Invalid shift configuration: shift object must have a start time and an end time or duration'
+      );
+    });
+  });
+
+  describe('export and import', () => {
+    const shifts: Shift[] = [
+      { name: 'Morning', start: '06:00', end: '14:00', breaks: [{ start: '10:00', end: '10:30', name: 'Lunch' }] },
+      { name: 'Night, late', start: '22:00', end: '06:00', dateOffset: -1, weekdays: [1, 2, 3] },
+      { name: 'On-call', start: '08:00', end: '', duration: '48:00' },
+    ];
+
+    it('should round-trip shifts and the timezone through JSON', () => {
+      expect(parseShiftPlan(formatShiftsJson(shifts, 'Europe/Berlin'))).toEqual({ shifts, timezone: 'Europe/Berlin' });
+    });
+
+    it('should round-trip shifts and the timezone through CSV', () => {
+      const csv = formatShiftsCsv(shifts, 'Europe/Berlin');
+
+      expect(csv.split('\n')).toEqual([
+        '# timezone: Europe/Berlin',
+        'name,start,end,duration,dateOffset,weekdays,breaks',
+        'Morning,06:00,14:00,,,,10:00-10:30 Lunch',
+        '"Night, late",22:00,06:00,,-1,"1,2,3",',
+        'On-call,08:00,,48:00,,,',
+      ]);
+      expect(parseShiftPlan(csv)).toEqual({ shifts, timezone: 'Europe/Berlin' });
+    });
+
+    it('should read several breaks and report malformed ones', () => {
+      expect(
+        parseShiftsText('name,start,end,breaks\nDay,06:00,18:00,10:00-10:15; 12:00-12:30 Lunch')[0].breaks
+      ).toEqual([
+        { start: '10:00', end: '10:15' },
+        { start: '12:00', end: '12:30', name: 'Lunch' },
+      ]);
+      expect(() => parseShiftsText('name,start,end,breaks\nDay,06:00,18:00,lunch')).toThrow(
+        'Invalid shift CSV: row 1 has an invalid break "lunch". Expected HH:mm-HH:mm'
+      );
+    });
+
+    it('should leave the timezone undefined when the plan does not name one', () => {
+      expect(parseShiftPlan(formatShiftsCsv(shifts)).timezone).toBeUndefined();
+      expect(parseShiftPlan('[{"name":"Day","start":"06:00","end":"18:00"}]').timezone).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,425 @@
+import { DataFrame, Field, getFieldDisplayName } from '@grafana/data';
+import { Shift, ShiftBreak, ShiftFieldMapping, SimpleOptions } from './types';
+import { validateShift } from './timeLogic';
+
+// Field names recognised when no field is mapped explicitly (compared case-insensitively)
+const FIELD_ALIASES: Record<keyof ShiftFieldMapping, string[]> = {
+  name: ['name', 'shift', 'shift_name', 'shiftname'],
+  start: ['start', 'start_time', 'starttime'],
+  end: ['end', 'end_time', 'endtime'],
+  duration: ['duration'],
+  dateOffset: ['dateoffset', 'date_offset', 'offset'],
+  weekdays: ['weekdays', 'weekday', 'day_of_week', 'dow'],
+};
+
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Normalises a time value from a query to "HH:mm".
+ * Accepts "6:00", "06:00" and SQL TIME values such as "06:00:00".
+ */
+const toTime = (value: unknown): string | undefined => {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(String(value ?? '').trim());
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : undefined;
+};
+
+/**
+ * Parses weekdays from a number (0 = Sunday ... 6 = Saturday) or a list such as "1,2,3" or "Mon, Tue".
+ * The first entry that is not a weekday is returned as invalid, so callers never fall back to "every day".
+ */
+const toWeekdays = (value: unknown): { weekdays: number[]; invalid?: string } => {
+  if (value === null || value === undefined) {
+    return { weekdays: [] };
+  }
+  const parts = String(value)
+    .split(/[,;\s]+/)
+    .map((part) => part.trim())
+    .filter((part) => part !== '');
+  const days = parts.map((part) =>
+    /^\d$/.test(part) ? Number(part) : WEEKDAY_NAMES.indexOf(part.slice(0, 3).toLowerCase())
+  );
+  const invalid = parts.find((_, i) => days[i] < 0 || days[i] > 6);
+  return { weekdays: days.sort((a, b) => a - b), invalid };
+};
+
+/**
+ * Finds the field holding a shift property: the mapped field if set, otherwise a field with a known name.
+ */
+const findField = (
+  frame: DataFrame,
+  frames: DataFrame[],
+  key: keyof ShiftFieldMapping,
+  mapping: ShiftFieldMapping
+): Field | undefined => {
+  const mapped = mapping[key];
+  if (mapped) {
+    return frame.fields.find((field) => getFieldDisplayName(field, frame, frames) === mapped || field.name === mapped);
+  }
+  return frame.fields.find((field) => FIELD_ALIASES[key].includes(field.name.toLowerCase()));
+};
+
+/**
+ * Adds a row to the shift list, merging it into an earlier row with the same name, times and date offset.
+ */
+const addShiftRow = (shifts: Shift[], shift: Shift, weekdays: number[]) => {
+  const existing = shifts.find(
+    (s) =>
+      s.name === shift.name &&
+      s.start === shift.start &&
+      s.end === shift.end &&
+      s.duration === shift.duration &&
+      s.dateOffset === shift.dateOffset
+  );
+  if (!existing) {
+    shifts.push(weekdays.length > 0 ? { ...shift, weekdays } : shift);
+  } else if (existing.weekdays) {
+    // A row without weekdays runs every day, which covers any weekday list
+    existing.weekdays =
+      weekdays.length > 0 ? Array.from(new Set([...existing.weekdays, ...weekdays])).sort((a, b) => a - b) : undefined;
+  }
+};
+
+/**
+ * Builds shifts from query results, one row per shift.
+ * Rows sharing the name, times and date offset are merged, so a plan stored as one row per weekday
+ * becomes a single shift running on all of those days. Rows without a name or a valid start time, and rows with
+ * a weekday that cannot be read (e.g. 7 or "Weekend"), are skipped rather than run every day;
+ * invalid end times or durations are kept and reported when the shift is selected.
+ *
+ * @param series - Data frames of the panel query
+ * @param mapping - Fields holding the shift properties; unmapped properties are detected by field name
+ * @returns Shifts in row order
+ */
+export const getShiftsFromData = (series: DataFrame[], mapping: ShiftFieldMapping = {}): Shift[] => {
+  const shifts: Shift[] = [];
+
+  series.forEach((frame) => {
+    const fields = {
+      name: findField(frame, series, 'name', mapping),
+      start: findField(frame, series, 'start', mapping),
+      end: findField(frame, series, 'end', mapping),
+      duration: findField(frame, series, 'duration', mapping),
+      dateOffset: findField(frame, series, 'dateOffset', mapping),
+      weekdays: findField(frame, series, 'weekdays', mapping),
+    };
+    if (!fields.name || !fields.start) {
+      return;
+    }
+
+    for (let row = 0; row < frame.length; row++) {
+      const name = String(fields.name.values[row] ?? '').trim();
+      const start = toTime(fields.start.values[row]);
+      if (!name || !start) {
+        continue;
+      }
+
+      const shift: Shift = { name, start, end: '' };
+      const end = fields.end?.values[row];
+      if (end !== null && end !== undefined && end !== '') {
+        shift.end = toTime(end) ?? String(end);
+      }
+      const duration = fields.duration?.values[row];
+      if (duration !== null && duration !== undefined && duration !== '') {
+        shift.duration = String(duration);
+      }
+      const dateOffset = Number(fields.dateOffset?.values[row]);
+      if (Number.isInteger(dateOffset) && dateOffset !== 0) {
+        shift.dateOffset = dateOffset;
+      }
+      const { weekdays, invalid } = toWeekdays(fields.weekdays?.values[row]);
+      if (invalid !== undefined) {
+        continue;
+      }
+      addShiftRow(shifts, shift, weekdays);
+    }
+  });
+
+  return shifts;
+};
+
+/**
+ * Shifts offered by the option editors (crew rotation, exceptions), read from the same source as the panel.
+ * With query results as source, the rows of the last query run in the panel editor are used; a shift plan
+ * text that cannot be parsed yields no shifts, as the panel reports its errors.
+ *
+ * @param options - Panel options
+ * @param series - Data frames of the panel query
+ * @param interpolate - Replaces dashboard variables in the shift plan text
+ * @returns Shifts in the order the panel lists them
+ */
+export const getConfiguredShifts = (
+  options: Partial<SimpleOptions> | undefined,
+  series: DataFrame[] = [],
+  interpolate: (text: string) => string = (text) => text
+): Shift[] => {
+  if (options?.shiftsSource === 'data') {
+    return getShiftsFromData(series, options.shiftFields);
+  }
+  if (options?.shiftsSource === 'text') {
+    try {
+      return parseShiftsText(interpolate(options.shiftsText ?? ''));
+    } catch {
+      return [];
+    }
+  }
+  return options?.shifts ?? [];
+};
+
+/**
+ * Splits CSV text into rows of cells. Cells may be quoted ("" stands for a quote inside a quoted cell).
+ */
+const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n') {
+      rows.push([...row, cell.trim()]);
+      row = [];
+      cell = '';
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell.trim()]);
+
+  return rows.filter((cells) => cells.some((c) => c !== ''));
+};
+
+// Break list of a CSV cell, e.g. "12:00-12:30 Lunch; 15:00-15:15"
+const BREAK_PATTERN = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})(?:\s+(.+))?$/;
+
+/**
+ * Reads shifts from CSV with a header row, using the same column names as query results
+ * plus an optional "breaks" column.
+ */
+const parseCsvShifts = (text: string): Shift[] => {
+  const header = text.split('\n')[0];
+  const delimiter = header.includes('\t') ? '\t' : header.includes(';') && !header.includes(',') ? ';' : ',';
+  const [columns, ...rows] = parseCsv(text, delimiter);
+  const column = (key: keyof ShiftFieldMapping) =>
+    columns.findIndex((name) => FIELD_ALIASES[key].includes(name.toLowerCase()));
+  const index = {
+    name: column('name'),
+    start: column('start'),
+    end: column('end'),
+    duration: column('duration'),
+    dateOffset: column('dateOffset'),
+    weekdays: column('weekdays'),
+    breaks: columns.findIndex((name) => name.toLowerCase() === 'breaks'),
+  };
+  if (index.name < 0 || index.start < 0) {
+    throw new Error('Invalid shift CSV: the header row needs "name" and "start" columns');
+  }
+
+  const shifts: Shift[] = [];
+  rows.forEach((cells, row) => {
+    const cell = (i: number) => (i >= 0 ? cells[i] ?? '' : '');
+    const shift: Shift = {
+      name: cell(index.name),
+      start: toTime(cell(index.start)) ?? cell(index.start),
+      end: toTime(cell(index.end)) ?? cell(index.end),
+    };
+    if (cell(index.duration)) {
+      shift.duration = cell(index.duration);
+    }
+    if (cell(index.dateOffset)) {
+      const dateOffset = Number(cell(index.dateOffset));
+      if (!Number.isInteger(dateOffset)) {
+        throw new Error(`Invalid shift CSV: row ${row + 1} has an invalid date offset "${cell(index.dateOffset)}"`);
+      }
+      if (dateOffset !== 0) {
+        shift.dateOffset = dateOffset;
+      }
+    }
+    if (cell(index.breaks)) {
+      shift.breaks = cell(index.breaks)
+        .split(';')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== '')
+        .map((entry): ShiftBreak => {
+          const match = BREAK_PATTERN.exec(entry);
+          if (!match) {
+            throw new Error(`Invalid shift CSV: row ${row + 1} has an invalid break "${entry}". Expected HH:mm-HH:mm`);
+          }
+          return match[3] ? { start: match[1], end: match[2], name: match[3] } : { start: match[1], end: match[2] };
+        });
+    }
+    const { weekdays, invalid } = toWeekdays(cell(index.weekdays));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid shift CSV: row ${row + 1} has an invalid weekday "${invalid}"`);
+    }
+    addShiftRow(shifts, shift, weekdays);
+  });
+
+  return shifts;
+};
+
+/**
+ * Reads shifts from a JSON array (or an object with a "shifts" array, as in exported panel options),
+ * checking the type of every property.
+ */
+const parseJsonShifts = (text: string): { shifts: Shift[]; timezone?: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid shift JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const plan = parsed as { shifts?: unknown; timezone?: unknown } | null;
+  const entries = Array.isArray(parsed) ? parsed : plan?.shifts;
+  if (!Array.isArray(entries)) {
+    throw new Error('Invalid shift JSON: expected an array of shifts');
+  }
+
+  const shifts = entries.map((entry, i) => {
+    const fail = (message: string): never => {
+      throw new Error(`Invalid shift JSON: shift ${i + 1} ${message}`);
+    };
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return fail('is not an object');
+    }
+    const { name, start, end, duration, dateOffset, weekdays, breaks } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || typeof start !== 'string') {
+      fail('needs "name" and "start" strings');
+    }
+    if ((end !== undefined && typeof end !== 'string') || (duration !== undefined && typeof duration !== 'string')) {
+      fail('has a non-string "end" or "duration"');
+    }
+    if (dateOffset !== undefined && typeof dateOffset !== 'number') {
+      fail('has a non-numeric "dateOffset"');
+    }
+    if (weekdays !== undefined && (!Array.isArray(weekdays) || weekdays.some((day) => typeof day !== 'number'))) {
+      fail('has "weekdays" that are not an array of numbers');
+    }
+    if (
+      breaks !== undefined &&
+      (!Array.isArray(breaks) ||
+        breaks.some(
+          (b) => typeof b !== 'object' || b === null || typeof b.start !== 'string' || typeof b.end !== 'string'
+        ))
+    ) {
+      fail('has "breaks" that are not an array of { start, end } objects');
+    }
+
+    return { ...(entry as unknown as Shift), end: (end as string | undefined) ?? '' };
+  });
+  return { shifts, timezone: typeof plan?.timezone === 'string' ? plan.timezone : undefined };
+};
+
+/**
+ * Checks every shift with the rules applied when its time range is calculated.
+ *
+ * @throws Error listing every invalid shift
+ */
+const validateShifts = (shifts: Shift[]): Shift[] => {
+  const errors = shifts
+    .map((shift, i) => {
+      const error = validateShift(shift);
+      return error && `Shift ${i + 1}${shift.name ? ` ("${shift.name}")` : ''}: ${error}`;
+    })
+    .filter((error): error is string => !!error);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  return shifts;
+};
+
+/**
+ * Reads a shift plan exported by formatShiftsJson or formatShiftsCsv, or written by hand.
+ * JSON (an array of shifts, or an object with "shifts" and an optional "timezone") and CSV with a header row
+ * (name,start,end,duration,dateOffset,weekdays,breaks, after optional "# timezone: ..." comment lines) are accepted.
+ * Every shift is validated with the rules applied when its time range is calculated.
+ *
+ * @param text - JSON or CSV text; empty text yields no shifts
+ * @returns The parsed shifts and the timezone the plan was written for, if it says
+ * @throws Error describing every malformed entry
+ */
+export const parseShiftPlan = (text: string): { shifts: Shift[]; timezone?: string } => {
+  let trimmed = text.trim();
+  let timezone: string | undefined;
+  if (/^[\[{]/.test(trimmed)) {
+    const plan = parseJsonShifts(trimmed);
+    return { ...plan, shifts: validateShifts(plan.shifts) };
+  }
+
+  while (trimmed.startsWith('#')) {
+    const [comment, ...rest] = trimmed.split('\n');
+    timezone = /^#\s*timezone:\s*(\S+)/i.exec(comment)?.[1] ?? timezone;
+    trimmed = rest.join('\n').trim();
+  }
+  return { shifts: trimmed ? validateShifts(parseCsvShifts(trimmed)) : [], timezone };
+};
+
+/**
+ * Reads shifts from text, typically a dashboard variable or an option interpolated with replaceVariables.
+ * Accepts the formats of parseShiftPlan.
+ *
+ * @param text - JSON or CSV text; empty text yields no shifts
+ * @returns The parsed shifts
+ * @throws Error describing every malformed entry
+ */
+export const parseShiftsText = (text: string): Shift[] => parseShiftPlan(text).shifts;
+
+// CSV cell, quoted when it contains the delimiter, a quote or a line break
+const toCsvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats shifts as JSON for export, with the timezone the times are meant in.
+ *
+ * @param shifts - Shifts to export
+ * @param timezone - Business timezone of the panel
+ * @returns Indented JSON readable by parseShiftPlan
+ */
+export const formatShiftsJson = (shifts: Shift[], timezone?: string): string =>
+  JSON.stringify({ timezone, shifts }, null, 2);
+
+/**
+ * Formats shifts as CSV for export, one row per shift. Weekdays are numbers (0 = Sunday) and breaks are
+ * written as "12:00-12:30 Lunch; 15:00-15:15". The timezone goes into a leading comment line.
+ *
+ * @param shifts - Shifts to export
+ * @param timezone - Business timezone of the panel
+ * @returns CSV readable by parseShiftPlan
+ */
+export const formatShiftsCsv = (shifts: Shift[], timezone?: string): string => {
+  const rows = shifts.map((shift) =>
+    [
+      shift.name,
+      shift.start,
+      shift.end,
+      shift.duration,
+      shift.dateOffset || undefined,
+      shift.weekdays?.join(','),
+      shift.breaks?.map((b) => `${b.start}-${b.end}${b.name ? ` ${b.name}` : ''}`).join('; '),
+    ]
+      .map(toCsvCell)
+      .join(',')
+  );
+  return [
+    ...(timezone ? [`# timezone: ${timezone}`] : []),
+    'name,start,end,duration,dateOffset,weekdays,breaks',
+    ...rows,
+  ].join('\n');
+};
@@ -1,8 +1,33 @@
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
-import { getShiftTimeRange, isShiftActive } from './timeLogic';
-import { Shift } from './types';
+import {
+  getShiftTimeRange,
+  isShiftActive,
+  isShiftScheduledOn,
+  getShiftsForDate,
+  getShiftCrew,
+  isShiftCancelled,
+  parseDuration,
+  getDurationEndTime,
+  formatShiftTimes,
+  getShiftDstInfo,
+  formatDuration,
+  getShiftBreakRanges,
+  getShiftWorkingTime,
+  getFullDayRange,
+  formatTimeRange,
+  getProductionDate,
+  getShiftInstances,
+  findShiftInstance,
+  getNextShiftBoundary,
+  getAdjacentShiftInstance,
+  findShiftInstanceByRange,
+  resolveDateExpression,
+  validateShift,
+  getShiftCoverage,
+} from './timeLogic';
+import { CrewRotation, Shift, ShiftException } from './types';
 
 // Extend dayjs with required plugins
 dayjs.extend(utc);
@@ -226,6 +251,481 @@ describe('timeLogic', () => {
     });
   });
 
+  describe('getShiftTimeRange with durations', () => {
+    it('should treat start === end as a full 24h shift', () => {
+      const shift: Shift = { name: '24h Duty', start: '07:00', end: '07:00' };
+
+      const result = getShiftTimeRange(shift, 'UTC', '2025-01-15');
+
+      expect(dayjs.utc(result.from).format('YYYY-MM-DD HH:mm')).toBe('2025-01-15 07:00');
+      expect(dayjs.utc(result.to).format('YYYY-MM-DD HH:mm')).toBe('2025-01-16 07:00');
+    });
+
+    it('should support durations longer than 24 hours', () => {
+      const shift: Shift = { name: 'On-call', start: '07:00', end: '07:00', duration: '48:00' };
+
+      const result = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-01-15');
+
+      expect(dayjs.utc(result.from).tz('Europe/Warsaw').format('YYYY-MM-DD HH:mm')).toBe('2025-01-15 07:00');
+      expect(dayjs.utc(result.to).tz('Europe/Warsaw').format('YYYY-MM-DD HH:mm')).toBe('2025-01-17 07:00');
+      expect(result.to - result.from).toBe(48 * 3600000);
+    });
+
+    it('should prefer the duration over the end time', () => {
+      const shift: Shift = { name: 'Fire Brigade', start: '08:00', end: '16:00', duration: '36:30' };
+
+      const result = getShiftTimeRange(shift, 'UTC', '2025-01-15');
+
+      expect(dayjs.utc(result.to).format('YYYY-MM-DD HH:mm')).toBe('2025-01-16 20:30');
+    });
+
+    it('should accept a duration without an end time', () => {
+      const shift = { name: 'Short', start: '08:00', duration: '4:15' } as Shift;
+
+      const result = getShiftTimeRange(shift, 'UTC', '2025-01-15');
+
+      expect(dayjs.utc(result.to).format('HH:mm')).toBe('12:15');
+    });
+
+    it('should combine durations with dateOffset', () => {
+      const shift: Shift = { name: 'Weekend', start: '18:00', end: '06:00', duration: '60:00', dateOffset: -1 };
+
+      const result = getShiftTimeRange(shift, 'UTC', '2025-01-18');
+
+      expect(dayjs.utc(result.from).format('YYYY-MM-DD HH:mm')).toBe('2025-01-17 18:00');
+      expect(dayjs.utc(result.to).format('YYYY-MM-DD HH:mm')).toBe('2025-01-20 06:00');
+    });
+
+    it('should keep wall-clock handover times across DST changes', () => {
+      const shift: Shift = { name: 'On-call', start: '07:00', end: '07:00', duration: '48:00' };
+
+      // Europe/Warsaw springs forward on 2025-03-30
+      const spring = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-03-29');
+      expect(dayjs.utc(spring.to).tz('Europe/Warsaw').format('YYYY-MM-DD HH:mm')).toBe('2025-03-31 07:00');
+      expect(spring.to - spring.from).toBe(47 * 3600000);
+
+      // ...and falls back on 2025-10-26
+      const autumn = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-10-25');
+      expect(dayjs.utc(autumn.to).tz('Europe/Warsaw').format('YYYY-MM-DD HH:mm')).toBe('2025-10-27 07:00');
+      expect(autumn.to - autumn.from).toBe(49 * 3600000);
+    });
+
+    it('should throw error for invalid durations', () => {
+      expect(() =>
+        getShiftTimeRange({ name: 'Bad', start: '08:00', end: '', duration: '8h' }, 'UTC', '2025-01-15')
+      ).toThrow('Invalid duration');
+      expect(() =>
+        getShiftTimeRange({ name: 'Zero', start: '08:00', end: '', duration: '0:00' }, 'UTC', '2025-01-15')
+      ).toThrow('Invalid duration');
+    });
+  });
+
+  describe('getShiftTimeRange DST policy', () => {
+    const night: Shift = { name: 'Night', start: '22:00', end: '06:00' };
+    const format = (ms: number) => dayjs.utc(ms).format('YYYY-MM-DD HH:mm');
+
+    it('should default to the earlier offset, matching previous behaviour', () => {
+      // 02:30 does not exist in Europe/Warsaw on 2025-03-30
+      const shift: Shift = { name: 'Gap', start: '02:30', end: '10:00' };
+
+      const result = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-03-30');
+
+      expect(format(result.from)).toBe('2025-03-30 01:30'); // 03:30 CEST
+      expect(format(result.to)).toBe('2025-03-30 08:00');
+    });
+
+    it('should resolve boundaries in a DST gap with the selected offset', () => {
+      const shift: Shift = { name: 'Gap', start: '02:30', end: '10:00' };
+
+      const earlier = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-03-30', 'earlier');
+      const later = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-03-30', 'later');
+
+      expect(format(earlier.from)).toBe('2025-03-30 01:30'); // +01:00
+      expect(format(later.from)).toBe('2025-03-30 00:30'); // +02:00
+    });
+
+    it('should resolve boundaries in a DST overlap with the selected offset', () => {
+      // 02:30 happens twice in Europe/Warsaw on 2025-10-26
+      const shift: Shift = { name: 'Overlap', start: '18:00', end: '02:30' };
+
+      const earlier = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-10-25', 'earlier');
+      const later = getShiftTimeRange(shift, 'Europe/Warsaw', '2025-10-25', 'later');
+
+      expect(format(earlier.to)).toBe('2025-10-26 00:30'); // +02:00
+      expect(format(later.to)).toBe('2025-10-26 01:30'); // +01:00
+    });
+
+    it('should keep the wall-clock length with the duration policy', () => {
+      const spring = getShiftTimeRange(night, 'Europe/Warsaw', '2025-03-29', 'duration');
+      const autumn = getShiftTimeRange(night, 'Europe/Warsaw', '2025-10-25', 'duration');
+
+      expect(spring.to - spring.from).toBe(8 * 3600000);
+      expect(autumn.to - autumn.from).toBe(8 * 3600000);
+      expect(format(spring.from)).toBe('2025-03-29 21:00');
+    });
+
+    it('should not affect shifts away from transitions', () => {
+      const policies = ['earlier', 'later', 'duration'] as const;
+      const results = policies.map((policy) => getShiftTimeRange(night, 'Europe/Warsaw', '2025-01-15', policy));
+
+      results.forEach((result) => expect(result).toEqual(results[0]));
+    });
+  });
+
+  describe('getShiftDstInfo', () => {
+    const night: Shift = { name: 'Night', start: '22:00', end: '06:00' };
+
+    it('should report a short night on spring-forward', () => {
+      const info = getShiftDstInfo(night, 'Europe/Warsaw', '2025-03-29');
+
+      expect(info.crossesTransition).toBe(true);
+      expect(info.durationMs).toBe(7 * 3600000);
+      expect(info.nominalMs).toBe(8 * 3600000);
+    });
+
+    it('should report a long night on fall-back', () => {
+      const info = getShiftDstInfo(night, 'Europe/Warsaw', '2025-10-25');
+
+      expect(info.crossesTransition).toBe(true);
+      expect(info.durationMs).toBe(9 * 3600000);
+    });
+
+    it('should still flag the transition when the duration policy keeps the length', () => {
+      const info = getShiftDstInfo(night, 'Europe/Warsaw', '2025-03-29', 'duration');
+
+      expect(info.crossesTransition).toBe(true);
+      expect(info.durationMs).toBe(8 * 3600000);
+    });
+
+    it('should flag shifts starting inside a DST gap', () => {
+      const info = getShiftDstInfo({ name: 'Gap', start: '02:30', end: '10:30' }, 'Europe/Warsaw', '2025-03-30');
+
+      expect(info.crossesTransition).toBe(true);
+      expect(info.durationMs).toBe(7 * 3600000);
+    });
+
+    it('should not flag regular days or timezones without DST', () => {
+      expect(getShiftDstInfo(night, 'Europe/Warsaw', '2025-01-15').crossesTransition).toBe(false);
+      expect(getShiftDstInfo(night, 'UTC', '2025-03-29').crossesTransition).toBe(false);
+    });
+  });
+
+  describe('getShiftBreakRanges', () => {
+    const utcTime = (value: string) => dayjs.utc(value).valueOf();
+
+    it('should return no breaks for shifts without breaks', () => {
+      expect(getShiftBreakRanges({ name: 'Day', start: '06:00', end: '14:00' }, 'UTC', '2025-01-15')).toEqual([]);
+    });
+
+    it('should place breaks on the shift date in the business timezone', () => {
+      const shift: Shift = {
+        name: 'Day',
+        start: '06:00',
+        end: '14:00',
+        breaks: [
+          { start: '12:00', end: '12:30', name: 'Lunch' },
+          { start: '09:00', end: '09:15' },
+        ],
+      };
+
+      expect(getShiftBreakRanges(shift, 'Europe/Warsaw', '2025-01-15')).toEqual([
+        { from: utcTime('2025-01-15T08:00:00Z'), to: utcTime('2025-01-15T08:15:00Z') },
+        { from: utcTime('2025-01-15T11:00:00Z'), to: utcTime('2025-01-15T11:30:00Z') },
+      ]);
+    });
+
+    it('should move breaks after midnight to the next day for overnight shifts', () => {
+      const shift: Shift = { name: 'Night', start: '22:00', end: '06:00', breaks: [{ start: '02:00', end: '02:30' }] };
+
+      expect(getShiftBreakRanges(shift, 'UTC', '2025-01-15')).toEqual([
+        { from: utcTime('2025-01-16T02:00:00Z'), to: utcTime('2025-01-16T02:30:00Z') },
+      ]);
+    });
+
+    it('should handle breaks crossing midnight', () => {
+      const shift: Shift = { name: 'Night', start: '22:00', end: '06:00', breaks: [{ start: '23:45', end: '00:15' }] };
+
+      expect(getShiftBreakRanges(shift, 'UTC', '2025-01-15')).toEqual([
+        { from: utcTime('2025-01-15T23:45:00Z'), to: utcTime('2025-01-16T00:15:00Z') },
+      ]);
+    });
+
+    it('should clip breaks to the shift and drop breaks outside of it', () => {
+      const shift: Shift = {
+        name: 'Day',
+        start: '06:00',
+        end: '14:00',
+        breaks: [
+          { start: '13:45', end: '14:30' },
+          { start: '15:00', end: '15:30' },
+        ],
+      };
+
+      expect(getShiftBreakRanges(shift, 'UTC', '2025-01-15')).toEqual([
+        { from: utcTime('2025-01-15T13:45:00Z'), to: utcTime('2025-01-15T14:00:00Z') },
+      ]);
+    });
+
+    it('should throw on invalid break times', () => {
+      const shift: Shift = { name: 'Day', start: '06:00', end: '14:00', breaks: [{ start: '12', end: '12:30' }] };
+
+      expect(() => getShiftBreakRanges(shift, 'UTC', '2025-01-15')).toThrow('Invalid break time');
+    });
+
+    it('should throw on break hours or minutes out of range instead of rolling them over', () => {
+      const breakAt = (start: string, end: string): Shift => ({
+        name: 'Day',
+        start: '06:00',
+        end: '14:00',
+        breaks: [{ start, end }],
+      });
+
+      expect(() => getShiftBreakRanges(breakAt('25:99', '26:00'), 'UTC', '2025-01-15')).toThrow(
+        'Invalid break hour values'
+      );
+      expect(() => getShiftBreakRanges(breakAt('12:00', '12:60'), 'UTC', '2025-01-15')).toThrow(
+        'Invalid break minute values'
+      );
+    });
+  });
+
+  describe('getShiftWorkingTime', () => {
+    it('should subtract breaks from the gross shift length', () => {
+      const shift: Shift = {
+        name: 'Day',
+        start: '06:00',
+        end: '14:00',
+        breaks: [
+          { start: '09:00', end: '09:15' },
+          { start: '12:00', end: '12:30' },
+        ],
+      };
+
+      expect(getShiftWorkingTime(shift, 'Europe/Warsaw', '2025-01-15')).toEqual({
+        grossMs: 8 * 3600000,
+        netMs: 7.25 * 3600000,
+      });
+    });
+
+    it('should count overlapping breaks once', () => {
+      const shift: Shift = {
+        name: 'Day',
+        start: '06:00',
+        end: '14:00',
+        breaks: [
+          { start: '12:00', end: '12:30' },
+          { start: '12:15', end: '12:45' },
+        ],
+      };
+
+      expect(getShiftWorkingTime(shift, 'UTC', '2025-01-15').netMs).toBe(7.25 * 3600000);
+    });
+
+    it('should equal the gross length without breaks', () => {
+      const { grossMs, netMs } = getShiftWorkingTime(
+        { name: 'Night', start: '22:00', end: '06:00' },
+        'UTC',
+        '2025-01-15'
+      );
+
+      expect(netMs).toBe(grossMs);
+    });
+  });
+
+  describe('validateShift', () => {
+    it('should accept valid shifts', () => {
+      expect(
+        validateShift({ name: 'Night', start: '22:00', end: '06:00', dateOffset: -1, weekdays: [1, 2] })
+      ).toBeNull();
+      expect(validateShift({ name: 'On-call', start: '08:00', end: '', duration: '48:00' })).toBeNull();
+    });
+
+    it('should report the errors of the time range calculation', () => {
+      expect(validateShift({ name: 'Morning', start: '6am', end: '14:00' })).toMatch(/^Invalid time format/);
+      expect(validateShift({ name: 'Morning', start: '25:00', end: '14:00' })).toMatch(/^Invalid hour values/);
+      expect(validateShift({ name: 'Morning', start: '06:00', end: '' })).toMatch(/^Invalid shift configuration/);
+      expect(validateShift({ name: 'On-call', start: '08:00', end: '', duration: '0:00' })).toMatch(
+        /^Invalid duration/
+      );
+      expect(
+        validateShift({ name: 'Morning', start: '06:00', end: '14:00', breaks: [{ start: 'noon', end: '12:30' }] })
+      ).toMatch(/^Invalid break time/);
+      expect(
+        validateShift({ name: 'Morning', start: '06:00', end: '14:00', breaks: [{ start: '25:99', end: '26:00' }] })
+      ).toMatch(/^Invalid break hour values/);
+    });
+
+    it('should check the name, date offset and weekdays', () => {
+      expect(validateShift({ name: ' ', start: '06:00', end: '14:00' })).toBe('Shift name is required');
+      expect(validateShift({ name: 'Morning', start: '06:00', end: '14:00', dateOffset: 0.5 })).toMatch(
+        /^Invalid date offset/
+      );
+      expect(validateShift({ name: 'Morning', start: '06:00', end: '14:00', weekdays: [1, 7] })).toMatch(
+        /^Invalid weekdays/
+      );
+    });
+  });
+
+  describe('getShiftCoverage', () => {
+    it('should lay out shifts on the wall clock without gaps or overlaps for a 3x8 plan', () => {
+      const coverage = getShiftCoverage([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+        { name: 'Afternoon', start: '14:00', end: '22:00' },
+        { name: 'Night', start: '22:00', end: '06:00' },
+      ]);
+
+      expect(coverage.bars).toEqual([
+        { index: 0, start: 360, end: 840 },
+        { index: 1, start: 840, end: 1320 },
+        { index: 2, start: 1320, end: 1800 },
+      ]);
+      expect(coverage.gaps).toEqual([]);
+      expect(coverage.overlaps).toEqual([]);
+      expect(coverage.invalid).toEqual([]);
+    });
+
+    it('should place date-offset shifts on the previous day', () => {
+      const { bars, gaps } = getShiftCoverage([
+        { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1 },
+        { name: 'Day', start: '06:00', end: '22:00' },
+      ]);
+
+      expect(bars[0]).toEqual({ index: 0, start: -120, end: 360 });
+      expect(gaps).toEqual([]);
+    });
+
+    it('should find gaps, keeping a gap across midnight in one piece', () => {
+      const { gaps } = getShiftCoverage([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+        { name: 'Afternoon', start: '14:15', end: '22:00' },
+      ]);
+
+      expect(gaps).toEqual([
+        { start: 840, end: 855 },
+        { start: 1320, end: 1800 },
+      ]);
+    });
+
+    it('should find overlaps, also with shifts of the following day', () => {
+      const { overlaps } = getShiftCoverage([
+        { name: 'Morning', start: '06:00', end: '15:00' },
+        { name: 'Afternoon', start: '14:00', end: '22:00' },
+        { name: 'Night', start: '22:00', end: '07:00' },
+      ]);
+
+      expect(overlaps).toEqual([
+        { start: 360, end: 420, shifts: [0, 2] },
+        { start: 840, end: 900, shifts: [0, 1] },
+      ]);
+    });
+
+    it('should count the part of a shift after midnight towards the following weekday', () => {
+      const weekdays = [1, 2, 3, 4, 5];
+      const { gaps, overlaps } = getShiftCoverage([
+        { name: 'Night', start: '22:00', end: '06:00', weekdays },
+        { name: 'Morning', start: '06:00', end: '14:00', weekdays },
+        { name: 'Afternoon', start: '14:00', end: '22:00', weekdays },
+      ]);
+
+      // Covered from Monday 06:00 to Saturday 06:00
+      expect(gaps).toEqual([{ start: 360, end: 3240, weekdays: [6] }]);
+      expect(overlaps).toEqual([]);
+    });
+
+    it('should find overlaps between shifts of neighbouring weekdays', () => {
+      const { overlaps } = getShiftCoverage([
+        { name: 'Friday night', start: '22:00', end: '08:00', weekdays: [5] },
+        { name: 'Saturday', start: '06:00', end: '18:00', weekdays: [6] },
+      ]);
+
+      expect(overlaps).toEqual([{ start: 360, end: 480, shifts: [0, 1], weekdays: [6] }]);
+    });
+
+    it('should report gaps with the weekdays they start on', () => {
+      const { overlaps, gaps } = getShiftCoverage([
+        { name: 'Weekday', start: '06:00', end: '06:00', weekdays: [1, 2, 3, 4, 5] },
+        { name: 'Weekend', start: '08:00', end: '20:00', weekdays: [0, 6] },
+      ]);
+
+      expect(overlaps).toEqual([]);
+      expect(gaps).toEqual([
+        { start: 360, end: 480, weekdays: [6] },
+        { start: 1200, end: 1800, weekdays: [0] },
+        { start: 1200, end: 1920, weekdays: [6] },
+      ]);
+    });
+
+    it('should report invalid shifts instead of drawing them', () => {
+      const { bars, invalid } = getShiftCoverage([
+        { name: 'Morning', start: '06:00', end: '14:00' },
+        { name: 'Broken', start: '25:00', end: '14:00' },
+      ]);
+
+      expect(bars.map((bar) => bar.index)).toEqual([0]);
+      expect(invalid).toEqual([{ index: 1, error: 'Invalid hour values: hours must be between 0 and 23' }]);
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format hours and minutes', () => {
+      expect(formatDuration(8 * 3600000)).toBe('8h');
+      expect(formatDuration(7.5 * 3600000)).toBe('7h 30m');
+      expect(formatDuration(48 * 3600000)).toBe('48h');
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('should parse hours and minutes, allowing more than 24 hours', () => {
+      expect(parseDuration('8:00')).toBe(480);
+      expect(parseDuration('36:30')).toBe(2190);
+      expect(parseDuration('48:00')).toBe(2880);
+    });
+
+    it('should reject invalid or empty durations', () => {
+      expect(parseDuration('0:00')).toBeNull();
+      expect(parseDuration('12')).toBeNull();
+      expect(parseDuration('12:60')).toBeNull();
+      expect(parseDuration('-1:00')).toBeNull();
+    });
+  });
+
+  describe('getDurationEndTime', () => {
+    it('should return the wall-clock end time', () => {
+      expect(getDurationEndTime('07:00', '48:00')).toBe('07:00');
+      expect(getDurationEndTime('22:00', '10:30')).toBe('08:30');
+    });
+
+    it('should return null for invalid input', () => {
+      expect(getDurationEndTime('7', '48:00')).toBeNull();
+      expect(getDurationEndTime('07:00', 'abc')).toBeNull();
+    });
+  });
+
+  describe('formatShiftTimes', () => {
+    it('should format regular and overnight shifts as start - end', () => {
+      expect(formatShiftTimes({ name: 'Day', start: '06:00', end: '14:00' })).toBe('06:00 - 14:00');
+      expect(formatShiftTimes({ name: 'Night', start: '22:00', end: '06:00' })).toBe('22:00 - 06:00');
+    });
+
+    it('should mark full-day and multi-day shifts with the number of days', () => {
+      expect(formatShiftTimes({ name: '24h', start: '07:00', end: '07:00' })).toBe('07:00 - 07:00 (+1d)');
+      expect(formatShiftTimes({ name: '48h', start: '07:00', end: '07:00', duration: '48:00' })).toBe(
+        '07:00 - 07:00 (+2d)'
+      );
+      expect(formatShiftTimes({ name: '36h', start: '20:00', end: '08:00', duration: '36:00' })).toBe(
+        '20:00 - 08:00 (+2d)'
+      );
+    });
+
+    it('should show short durations like a regular shift', () => {
+      expect(formatShiftTimes({ name: 'Half', start: '22:00', end: '', duration: '4:00' })).toBe('22:00 - 02:00');
+    });
+
+    it('should fall back to the end time for invalid durations', () => {
+      expect(formatShiftTimes({ name: 'Bad', start: '08:00', end: '16:00', duration: 'x' })).toBe('08:00 - 16:00');
+    });
+  });
+
   describe('isShiftActive', () => {
     it('should return false for a shift on a past date', () => {
       const shift: Shift = {
@@ -299,5 +799,523 @@ describe('timeLogic', () => {
       // Result depends on current time, just ensure it doesn't throw
       expect(typeof result).toBe('boolean');
     });
+
+    describe('with a production day start', () => {
+      const night: Shift = { name: 'Night', start: '22:00', end: '06:00' };
+
+      beforeEach(() => {
+        // 02:00 in Warsaw on 2025-01-16, during the night shift that started on the 15th
+        jest.useFakeTimers({ now: new Date('2025-01-16T01:00:00Z') });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should treat the running night shift as active on the previous production day', () => {
+        expect(isShiftActive(night, 'Europe/Warsaw', '2025-01-15', '06:00')).toBe(true);
+        expect(isShiftActive(night, 'Europe/Warsaw', undefined, '06:00')).toBe(true);
+      });
+
+      it('should use calendar days by default', () => {
+        expect(isShiftActive(night, 'Europe/Warsaw', '2025-01-15')).toBe(false);
+        expect(isShiftActive(night, 'Europe/Warsaw')).toBe(false);
+      });
+    });
+  });
+
+  describe('getProductionDate', () => {
+    it('should return the calendar date in the business timezone by default', () => {
+      // 23:30 UTC is already the next day in Warsaw
+      expect(getProductionDate('Europe/Warsaw', '00:00', dayjs.utc('2025-01-15T23:30:00Z').valueOf())).toBe(
+        '2025-01-16'
+      );
+      expect(getProductionDate('UTC', undefined, dayjs.utc('2025-01-15T23:30:00Z').valueOf())).toBe('2025-01-15');
+    });
+
+    it('should belong to the previous day before the production day start', () => {
+      const at = (time: string) => dayjs.utc(`2025-01-16T${time}:00Z`).valueOf();
+
+      expect(getProductionDate('UTC', '06:00', at('02:00'))).toBe('2025-01-15');
+      expect(getProductionDate('UTC', '06:00', at('05:59'))).toBe('2025-01-15');
+      expect(getProductionDate('UTC', '06:00', at('06:00'))).toBe('2025-01-16');
+    });
+
+    it('should fall back to midnight for invalid start times', () => {
+      expect(getProductionDate('UTC', 'x', dayjs.utc('2025-01-16T02:00:00Z').valueOf())).toBe('2025-01-16');
+    });
+  });
+
+  describe('resolveDateExpression', () => {
+    // 2025-01-15 is a Wednesday
+    const today = '2025-01-15';
+
+    it('should accept absolute dates', () => {
+      expect(resolveDateExpression('2024-12-24', today)).toBe('2024-12-24');
+    });
+
+    it('should resolve days relative to today', () => {
+      expect(resolveDateExpression('today', today)).toBe('2025-01-15');
+      expect(resolveDateExpression('Yesterday', today)).toBe('2025-01-14');
+      expect(resolveDateExpression('tomorrow', today)).toBe('2025-01-16');
+      expect(resolveDateExpression('today-1', today)).toBe('2025-01-14');
+      expect(resolveDateExpression(' today + 20 ', today)).toBe('2025-02-04');
+    });
+
+    it('should resolve the last and next weekday, excluding today', () => {
+      expect(resolveDateExpression('last monday', today)).toBe('2025-01-13');
+      expect(resolveDateExpression('last tue', today)).toBe('2025-01-14');
+      expect(resolveDateExpression('last wednesday', today)).toBe('2025-01-08');
+      expect(resolveDateExpression('next Friday', today)).toBe('2025-01-17');
+      expect(resolveDateExpression('next wed', today)).toBe('2025-01-22');
+    });
+
+    it('should throw on unknown expressions', () => {
+      expect(() => resolveDateExpression('2025-02-30', today)).toThrow('Invalid date expression: "2025-02-30"');
+      expect(() => resolveDateExpression('last holiday', today)).toThrow('Invalid date expression');
+      expect(() => resolveDateExpression('today*2', today)).toThrow('Invalid date expression');
+    });
+  });
+
+  describe('isShiftScheduledOn', () => {
+    it('should treat shifts without weekdays as running every day', () => {
+      const shift: Shift = { name: 'Day', start: '08:00', end: '16:00' };
+
+      expect(isShiftScheduledOn(shift, '2025-01-13')).toBe(true); // Monday
+      expect(isShiftScheduledOn(shift, '2025-01-18')).toBe(true); // Saturday
+      expect(isShiftScheduledOn({ ...shift, weekdays: [] }, '2025-01-19')).toBe(true); // Sunday
+    });
+
+    it('should match the weekday of the selected date', () => {
+      const weekend: Shift = { name: 'Weekend Day', start: '06:00', end: '18:00', weekdays: [0, 6] };
+
+      expect(isShiftScheduledOn(weekend, '2025-01-17')).toBe(false); // Friday
+      expect(isShiftScheduledOn(weekend, '2025-01-18')).toBe(true); // Saturday
+      expect(isShiftScheduledOn(weekend, '2025-01-19')).toBe(true); // Sunday
+    });
+
+    it('should use the selected date rather than the offset start date', () => {
+      // Starts Friday evening but belongs to Saturday
+      const shift: Shift = { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1, weekdays: [6] };
+
+      expect(isShiftScheduledOn(shift, '2025-01-18')).toBe(true);
+      expect(isShiftScheduledOn(shift, '2025-01-17')).toBe(false);
+    });
+  });
+
+  describe('getShiftsForDate', () => {
+    const shifts: Shift[] = [
+      { name: 'Morning', start: '06:00', end: '14:00', weekdays: [1, 2, 3, 4, 5] },
+      { name: 'Afternoon', start: '14:00', end: '22:00', weekdays: [1, 2, 3, 4, 5] },
+      { name: 'Night', start: '22:00', end: '06:00', weekdays: [1, 2, 3, 4, 5] },
+      { name: 'Weekend Day', start: '06:00', end: '18:00', weekdays: [0, 6] },
+      { name: 'Weekend Night', start: '18:00', end: '06:00', weekdays: [0, 6] },
+    ];
+
+    it('should return the 3x8 plan on weekdays', () => {
+      const result = getShiftsForDate(shifts, '2025-01-15');
+
+      expect(result.map((s) => s.name)).toEqual(['Morning', 'Afternoon', 'Night']);
+    });
+
+    it('should return the 2x12 plan on weekends', () => {
+      const result = getShiftsForDate(shifts, '2025-01-19');
+
+      expect(result.map((s) => s.name)).toEqual(['Weekend Day', 'Weekend Night']);
+    });
+
+    describe('with exceptions', () => {
+      const exceptions: ShiftException[] = [
+        { date: '2025-12-24', type: 'cancel', shift: 'Night', note: 'Christmas Eve' },
+        { date: '2025-12-24', type: 'modify', shift: 'Afternoon', start: '14:00', end: '18:00' },
+        { date: '2025-12-24', type: 'add', shift: 'Inventory', start: '18:00', end: '20:00' },
+        { date: '2025-12-31', type: 'cancel', shift: 'Morning' },
+      ];
+
+      it('should mark cancelled shifts without removing them', () => {
+        const result = getShiftsForDate(shifts, '2025-12-24', exceptions);
+        const night = result.find((s) => s.name === 'Night')!;
+
+        expect(isShiftCancelled(night)).toBe(true);
+        expect(night.exception?.note).toBe('Christmas Eve');
+        expect(isShiftCancelled(result.find((s) => s.name === 'Morning')!)).toBe(false);
+      });
+
+      it('should override start and end times of modified shifts', () => {
+        const result = getShiftsForDate(shifts, '2025-12-24', exceptions);
+
+        expect(result.find((s) => s.name === 'Afternoon')).toMatchObject({ start: '14:00', end: '18:00' });
+      });
+
+      it('should replace the duration of a modified shift with its new end time', () => {
+        const onCall: Shift = { name: 'On-call', start: '07:00', end: '07:00', duration: '48:00' };
+        const [shortened] = getShiftsForDate([onCall], '2025-12-24', [
+          { date: '2025-12-24', type: 'modify', shift: 'On-call', start: '07:00', end: '19:00' },
+        ]);
+        const [moved] = getShiftsForDate([onCall], '2025-12-24', [
+          { date: '2025-12-24', type: 'modify', shift: 'On-call', start: '09:00' },
+        ]);
+
+        expect(shortened.duration).toBeUndefined();
+        const { from, to } = getShiftTimeRange(shortened, 'UTC', '2025-12-24');
+        expect(to - from).toBe(12 * 60 * 60 * 1000);
+        expect(moved).toMatchObject({ start: '09:00', duration: '48:00' });
+      });
+
+      it('should append added shifts after the regular plan', () => {
+        const result = getShiftsForDate(shifts, '2025-12-24', exceptions);
+
+        expect(result.map((s) => s.name)).toEqual(['Morning', 'Afternoon', 'Night', 'Inventory']);
+        expect(result[3]).toMatchObject({ start: '18:00', end: '20:00' });
+      });
+
+      it('should only apply exceptions dated on the selected date', () => {
+        const result = getShiftsForDate(shifts, '2025-12-23', exceptions);
+
+        expect(result.map((s) => s.name)).toEqual(['Morning', 'Afternoon', 'Night']);
+        expect(result.every((s) => !s.exception)).toBe(true);
+      });
+
+      it('should produce ranges from the overridden times', () => {
+        const afternoon = getShiftsForDate(shifts, '2025-12-24', exceptions).find((s) => s.name === 'Afternoon')!;
+        const result = getShiftTimeRange(afternoon, 'UTC', '2025-12-24');
+
+        expect(dayjs.utc(result.to).format('YYYY-MM-DD HH:mm')).toBe('2025-12-24 18:00');
+      });
+    });
+  });
+
+  describe('getFullDayRange', () => {
+    const utcTime = (value: string) => dayjs.utc(value).valueOf();
+    const shifts: Shift[] = [
+      { name: 'Morning', start: '06:00', end: '14:00' },
+      { name: 'Afternoon', start: '14:00', end: '22:00' },
+      { name: 'Night', start: '22:00', end: '06:00' },
+    ];
+
+    it('should span from the first shift start to the last shift end', () => {
+      expect(getFullDayRange(shifts, 'Europe/Warsaw', '2025-01-15')).toEqual({
+        from: utcTime('2025-01-15T05:00:00Z'),
+        to: utcTime('2025-01-16T05:00:00Z'),
+      });
+    });
+
+    it('should include shifts moved by dateOffset', () => {
+      const withOffset: Shift[] = [
+        { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1 },
+        { name: 'Day', start: '06:00', end: '14:00' },
+      ];
+
+      expect(getFullDayRange(withOffset, 'UTC', '2025-01-15')).toEqual({
+        from: utcTime('2025-01-14T22:00:00Z'),
+        to: utcTime('2025-01-15T14:00:00Z'),
+      });
+    });
+
+    it('should apply weekday schedules and leave out cancelled shifts', () => {
+      const exceptions: ShiftException[] = [{ date: '2025-01-15', type: 'cancel', shift: 'Night' }];
+      const weekdays: Shift[] = [...shifts, { name: 'Weekend', start: '00:00', end: '00:00', weekdays: [0, 6] }];
+
+      expect(getFullDayRange(weekdays, 'UTC', '2025-01-15', exceptions)).toEqual({
+        from: utcTime('2025-01-15T06:00:00Z'),
+        to: utcTime('2025-01-15T22:00:00Z'),
+      });
+    });
+
+    it('should return null when no shift runs on the date', () => {
+      const exceptions: ShiftException[] = shifts.map((s) => ({ date: '2025-01-15', type: 'cancel', shift: s.name }));
+
+      expect(getFullDayRange(shifts, 'UTC', '2025-01-15', exceptions)).toBeNull();
+      expect(getFullDayRange([], 'UTC', '2025-01-15')).toBeNull();
+    });
+  });
+
+  describe('formatTimeRange', () => {
+    it('should format the range in the business timezone', () => {
+      expect(
+        formatTimeRange(
+          dayjs.utc('2025-01-15T05:00:00Z').valueOf(),
+          dayjs.utc('2025-01-15T13:00:00Z').valueOf(),
+          'Europe/Warsaw'
+        )
+      ).toBe('06:00 - 14:00');
+    });
+
+    it('should show the number of days for ranges ending on a later day', () => {
+      expect(
+        formatTimeRange(
+          dayjs.utc('2025-01-15T05:00:00Z').valueOf(),
+          dayjs.utc('2025-01-16T05:00:00Z').valueOf(),
+          'Europe/Warsaw'
+        )
+      ).toBe('06:00 - 06:00 (+1d)');
+    });
+  });
+
+  describe('getShiftInstances', () => {
+    const utcTime = (value: string) => dayjs.utc(value).valueOf();
+    const shifts: Shift[] = [
+      { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1 },
+      { name: 'Day', start: '06:00', end: '14:00' },
+      { name: 'Weekend', start: '14:00', end: '22:00', weekdays: [0, 6] },
+    ];
+
+    it('should list the instances of every date in chronological order', () => {
+      const instances = getShiftInstances(shifts, 'UTC', '2025-01-17', '2025-01-18');
+
+      expect(instances.map((i) => `${i.date} ${i.shift.name}`)).toEqual([
+        '2025-01-17 Night',
+        '2025-01-17 Day',
+        '2025-01-18 Night',
+        '2025-01-18 Day',
+        '2025-01-18 Weekend',
+      ]);
+      expect(instances[0]).toMatchObject({
+        from: utcTime('2025-01-16T22:00:00Z'),
+        to: utcTime('2025-01-17T06:00:00Z'),
+      });
+    });
+
+    it('should apply exceptions and leave out cancelled shifts', () => {
+      const exceptions: ShiftException[] = [
+        { date: '2025-01-17', type: 'cancel', shift: 'Night' },
+        { date: '2025-01-17', type: 'modify', shift: 'Day', start: '06:00', end: '12:00' },
+      ];
+
+      const instances = getShiftInstances(shifts, 'UTC', '2025-01-17', '2025-01-17', exceptions);
+
+      expect(instances).toHaveLength(1);
+      expect(instances[0].shift.exception).toBe(exceptions[1]);
+      expect(instances[0].to).toBe(utcTime('2025-01-17T12:00:00Z'));
+    });
+
+    it('should skip and report instances that cannot be calculated', () => {
+      const exceptions: ShiftException[] = [{ date: '2025-01-17', type: 'add', shift: 'Overtime' }];
+      const onInvalid = jest.fn();
+
+      const instances = getShiftInstances(shifts, 'UTC', '2025-01-17', '2025-01-18', exceptions, 'earlier', onInvalid);
+
+      expect(instances.map((i) => `${i.date} ${i.shift.name}`)).toEqual([
+        '2025-01-17 Night',
+        '2025-01-17 Day',
+        '2025-01-18 Night',
+        '2025-01-18 Day',
+        '2025-01-18 Weekend',
+      ]);
+      expect(onInvalid).toHaveBeenCalledTimes(1);
+      expect(onInvalid).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Overtime' }),
+        '2025-01-17',
+        expect.any(String)
+      );
+    });
+
+    it('should return nothing for an empty date range', () => {
+      expect(getShiftInstances(shifts, 'UTC', '2025-01-18', '2025-01-17')).toEqual([]);
+    });
+  });
+
+  describe('findShiftInstance', () => {
+    const utcTime = (value: string) => dayjs.utc(value).valueOf();
+    const shifts: Shift[] = [
+      { name: 'Day', start: '06:00', end: '18:00' },
+      { name: 'Night', start: '18:00', end: '06:00' },
+      { name: 'Overlap', start: '17:00', end: '19:00' },
+    ];
+    const instances = getShiftInstances(shifts, 'UTC', '2025-01-14', '2025-01-15');
+
+    it('should find the running instance', () => {
+      const current = findShiftInstance(instances, utcTime('2025-01-15T02:00:00Z'), 'current');
+
+      expect(current).toMatchObject({ date: '2025-01-14', shift: { name: 'Night' } });
+    });
+
+    it('should prefer the instance that started last when instances overlap', () => {
+      expect(findShiftInstance(instances, utcTime('2025-01-15T17:30:00Z'), 'current')?.shift.name).toBe('Overlap');
+    });
+
+    it('should find the most recently finished instance', () => {
+      const previous = findShiftInstance(instances, utcTime('2025-01-15T10:00:00Z'), 'previous');
+
+      expect(previous).toMatchObject({ date: '2025-01-14', shift: { name: 'Night' } });
+    });
+
+    it('should return undefined when nothing matches', () => {
+      expect(findShiftInstance(instances, utcTime('2025-01-10T10:00:00Z'), 'current')).toBeUndefined();
+      expect(findShiftInstance(instances, utcTime('2025-01-10T10:00:00Z'), 'previous')).toBeUndefined();
+    });
+  });
+
+  describe('getNextShiftBoundary', () => {
+    const utcTime = (value: string) => dayjs.utc(value).valueOf();
+    const shifts: Shift[] = [
+      { name: 'Day', start: '06:00', end: '14:00' },
+      { name: 'Night', start: '22:00', end: '06:00' },
+    ];
+
+    it('should return the next start or end', () => {
+      const instances = getShiftInstances(shifts, 'UTC', '2025-01-15', '2025-01-16');
+
+      expect(getNextShiftBoundary(instances, utcTime('2025-01-15T10:00:00Z'))).toBe(utcTime('2025-01-15T14:00:00Z'));
+      expect(getNextShiftBoundary(instances, utcTime('2025-01-15T14:00:00Z'))).toBe(utcTime('2025-01-15T22:00:00Z'));
+      expect(getNextShiftBoundary(instances, utcTime('2025-01-17T07:00:00Z'))).toBeUndefined();
+    });
+
+    it('should follow the real handover time across a DST change', () => {
+      // Spring forward in Warsaw: 02:00 CET becomes 03:00 CEST on 2025-03-30
+      const instances = getShiftInstances(shifts, 'Europe/Warsaw', '2025-03-29', '2025-03-30');
+
+      expect(getNextShiftBoundary(instances, utcTime('2025-03-29T21:00:00Z'))).toBe(utcTime('2025-03-30T04:00:00Z'));
+    });
+  });
+
+  describe('getAdjacentShiftInstance', () => {
+    const shifts: Shift[] = [
+      { name: 'Morning', start: '06:00', end: '14:00' },
+      { name: 'Afternoon', start: '14:00', end: '22:00' },
+      { name: 'Night', start: '22:00', end: '06:00' },
+    ];
+    const describeInstance = (instance?: { date: string; shift: Shift }) =>
+      instance ? `${instance.date} ${instance.shift.name}` : undefined;
+
+    it('should step to the next and previous shift of the same date', () => {
+      expect(describeInstance(getAdjacentShiftInstance(shifts, 'UTC', '2025-01-15', 'Morning', 1))).toBe(
+        '2025-01-15 Afternoon'
+      );
+      expect(describeInstance(getAdjacentShiftInstance(shifts, 'UTC', '2025-01-15', 'Afternoon', -1))).toBe(
+        '2025-01-15 Morning'
+      );
+    });
+
+    it('should move across date boundaries', () => {
+      expect(describeInstance(getAdjacentShiftInstance(shifts, 'UTC', '2025-01-15', 'Night', 1))).toBe(
+        '2025-01-16 Morning'
+      );
+      expect(describeInstance(getAdjacentShiftInstance(shifts, 'UTC', '2025-01-15', 'Morning', -1))).toBe(
+        '2025-01-14 Night'
+      );
+    });
+
+    it('should skip dates without shifts', () => {
+      const weekdays: Shift[] = [{ name: 'Office', start: '09:00', end: '17:00', weekdays: [1, 2, 3, 4, 5] }];
+
+      // Friday 2025-01-17 -> Monday 2025-01-20
+      expect(describeInstance(getAdjacentShiftInstance(weekdays, 'UTC', '2025-01-17', 'Office', 1))).toBe(
+        '2025-01-20 Office'
+      );
+      expect(describeInstance(getAdjacentShiftInstance(weekdays, 'UTC', '2025-01-20', 'Office', -1))).toBe(
+        '2025-01-17 Office'
+      );
+    });
+
+    it('should start from the date itself without a selected shift', () => {
+      expect(describeInstance(getAdjacentShiftInstance(shifts, 'UTC', '2025-01-15', undefined, 1))).toBe(
+        '2025-01-15 Morning'
+      );
+      expect(describeInstance(getAdjacentShiftInstance(shifts, 'UTC', '2025-01-15', undefined, -1))).toBe(
+        '2025-01-14 Night'
+      );
+    });
+
+    it('should return undefined when no shift is found', () => {
+      expect(getAdjacentShiftInstance([], 'UTC', '2025-01-15', undefined, 1)).toBeUndefined();
+    });
+  });
+
+  describe('findShiftInstanceByRange', () => {
+    const utcTime = (value: string) => dayjs.utc(value).valueOf();
+    const shifts: Shift[] = [
+      { name: 'Morning', start: '06:00', end: '14:00' },
+      { name: 'Night', start: '22:00', end: '06:00', dateOffset: -1 },
+    ];
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should find the instance with exactly the same range', () => {
+      const match = findShiftInstanceByRange(
+        shifts,
+        'Europe/Warsaw',
+        utcTime('2025-01-15T05:00:00Z'),
+        utcTime('2025-01-15T13:00:00Z')
+      );
+
+      expect(match).toMatchObject({ date: '2025-01-15', shift: { name: 'Morning' } });
+    });
+
+    it('should find shifts moved to the previous day by dateOffset', () => {
+      const match = findShiftInstanceByRange(
+        shifts,
+        'Europe/Warsaw',
+        utcTime('2025-01-14T21:00:00Z'),
+        utcTime('2025-01-15T05:00:00Z')
+      );
+
+      expect(match).toMatchObject({ date: '2025-01-15', shift: { name: 'Night' } });
+    });
+
+    it('should tolerate sub-second differences', () => {
+      expect(
+        findShiftInstanceByRange(shifts, 'UTC', utcTime('2025-01-15T06:00:00Z') + 500, utcTime('2025-01-15T14:00:00Z'))
+      ).toBeDefined();
+    });
+
+    it('should not match other ranges', () => {
+      expect(
+        findShiftInstanceByRange(shifts, 'UTC', utcTime('2025-01-15T06:00:00Z'), utcTime('2025-01-15T15:00:00Z'))
+      ).toBeUndefined();
+    });
+
+    it('should match a range ending at now to the running instance', () => {
+      jest.useFakeTimers({ now: new Date('2025-01-15T10:00:00Z') });
+
+      expect(findShiftInstanceByRange(shifts, 'UTC', utcTime('2025-01-15T06:00:00Z'), 'now')).toMatchObject({
+        shift: { name: 'Morning' },
+      });
+      expect(findShiftInstanceByRange(shifts, 'UTC', utcTime('2025-01-14T06:00:00Z'), 'now')).toBeUndefined();
+    });
+  });
+
+  describe('getShiftCrew', () => {
+    const day: Shift = { name: 'Day', start: '06:00', end: '18:00' };
+    const night: Shift = { name: 'Night', start: '18:00', end: '06:00' };
+    const rotation: CrewRotation = {
+      cycleLength: 4,
+      anchorDate: '2025-01-01',
+      assignments: [
+        { shift: 'Day', crews: ['A', 'A', 'B', 'B'] },
+        { shift: 'Night', crews: ['C', 'C', 'D', ''] },
+      ],
+    };
+
+    it('should return the crew for the cycle day of the selected date', () => {
+      expect(getShiftCrew(day, rotation, '2025-01-01')).toBe('A');
+      expect(getShiftCrew(day, rotation, '2025-01-03')).toBe('B');
+      expect(getShiftCrew(night, rotation, '2025-01-02')).toBe('C');
+    });
+
+    it('should repeat the cycle after the anchor date', () => {
+      expect(getShiftCrew(day, rotation, '2025-01-05')).toBe('A');
+      expect(getShiftCrew(night, rotation, '2025-01-11')).toBe('D');
+    });
+
+    it('should handle dates before the anchor date', () => {
+      expect(getShiftCrew(day, rotation, '2024-12-31')).toBe('B');
+      expect(getShiftCrew(day, rotation, '2024-12-29')).toBe('A');
+    });
+
+    it('should not drift across DST transitions', () => {
+      // 2025-03-30 is the spring-forward day in Europe; 88 days after the anchor
+      expect(getShiftCrew(day, rotation, '2025-03-30')).toBe('A');
+      expect(getShiftCrew(day, rotation, '2025-10-27')).toBe('B');
+    });
+
+    it('should return undefined when no crew is assigned', () => {
+      expect(getShiftCrew(night, rotation, '2025-01-04')).toBeUndefined();
+      expect(getShiftCrew({ name: 'Other', start: '08:00', end: '16:00' }, rotation, '2025-01-01')).toBeUndefined();
+      expect(getShiftCrew(day, undefined, '2025-01-01')).toBeUndefined();
+      expect(getShiftCrew(day, { ...rotation, cycleLength: 0 }, '2025-01-01')).toBeUndefined();
+    });
   });
 });
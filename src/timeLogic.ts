@@ -1,39 +1,42 @@
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
-import { Shift } from './types';
+import { CrewRotation, DstPolicy, ScheduledShift, Shift, ShiftCoverage, ShiftException, ShiftInstance } from './types';
 
 // Extend dayjs with timezone support
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Calculates the absolute 'from' and 'to' epoch milliseconds for a given shift.
+ * Parses a shift duration in "H:mm" format (hours may exceed 24, e.g. "48:00").
  *
- * @param shift - The shift configuration with start/end times and optional date offset
- * @param timezone - IANA timezone (e.g., "Europe/Warsaw") - shifts are interpreted in this timezone
- * @param selectedDate - Optional date string (YYYY-MM-DD). If not provided, uses current date in the timezone.
- * @returns Object with 'from' and 'to' as UTC epoch milliseconds
- *
- * IMPORTANT: Shift times are ALWAYS interpreted in the specified timezone, regardless of:
- * - Database timezone (should be UTC)
- * - Grafana server timezone
- * - Client browser timezone
- *
- * The returned timestamps are in UTC milliseconds, ready for Grafana's time range.
- *
- * DATE OFFSET: If shift.dateOffset is set, it adds/subtracts days from the selected date.
- * Example: dateOffset=-1 means the shift starts one day before the selected date.
- * Useful for overnight shifts where you want to reference them by the day they END.
+ * @param duration - Duration string
+ * @returns Total minutes, or null if the format is invalid or the duration is not positive
  */
-export const getShiftTimeRange = (
+export const parseDuration = (duration: string): number | null => {
+  const match = /^(\d+):([0-5]\d)$/.exec(duration.trim());
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes > 0 ? minutes : null;
+};
+
+/**
+ * Validates a shift and works out its wall-clock start and end on a timezone-free calendar,
+ * so that adding days or hours is never distorted by DST. The returned values are "naive"
+ * local times stored as UTC; they still have to be resolved in the business timezone.
+ */
+const getLocalShiftBounds = (
   shift: Shift,
   tz: string,
   selectedDate?: string
-): { from: number; to: number } => {
+): { localStart: dayjs.Dayjs; localEnd: dayjs.Dayjs } => {
   // Validate shift input
-  if (!shift || !shift.start || !shift.end) {
-    throw new Error('Invalid shift configuration: shift object must have start and end times');
+  if (!shift || !shift.start || (!shift.end && !shift.duration)) {
+    throw new Error('Invalid shift configuration: shift object must have a start time and an end time or duration');
   }
 
   // Validate timezone
@@ -43,22 +46,16 @@ export const getShiftTimeRange = (
 
   // Create base date in the specified timezone
   // If selectedDate provided, use it; otherwise use current date in that timezone
-  let baseDate = selectedDate ? dayjs.tz(selectedDate, tz) : dayjs.tz(dayjs(), tz);
+  const baseDate = selectedDate ? dayjs.tz(selectedDate, tz) : dayjs.tz(dayjs(), tz);
 
   // Check if timezone parsing failed
   if (!baseDate.isValid()) {
     throw new Error(`Invalid timezone or date: "${tz}" / "${selectedDate}"`);
   }
 
-  // Apply date offset if configured
-  // E.g., dateOffset=-1 means shift starts one day before selected date
-  if (shift.dateOffset) {
-    baseDate = baseDate.add(shift.dateOffset, 'day');
-  }
-
-  // Parse and validate time format
+  // Parse and validate time format (the end time is only needed without a duration)
   const startParts = shift.start.split(':');
-  const endParts = shift.end.split(':');
+  const endParts = shift.duration ? ['0', '0'] : shift.end.split(':');
 
   if (startParts.length !== 2 || endParts.length !== 2) {
     throw new Error(`Invalid time format: start="${shift.start}", end="${shift.end}". Expected HH:mm format.`);
@@ -82,48 +79,859 @@ export const getShiftTimeRange = (
     throw new Error(`Invalid minute values: minutes must be between 0 and 59`);
   }
 
-  // Set times in the specified timezone
-  let from = baseDate.hour(startHour).minute(startMin).second(0).millisecond(0);
-  let to = baseDate.hour(endHour).minute(endMin).second(0).millisecond(0);
+  let durationMinutes: number | null = null;
+  if (shift.duration) {
+    durationMinutes = parseDuration(shift.duration);
+    if (durationMinutes === null) {
+      throw new Error(
+        `Invalid duration: "${shift.duration}". Expected H:mm format with a positive length (e.g., 48:00).`
+      );
+    }
+  }
+
+  // dateOffset shifts the start date
+  const localStart = dayjs
+    .utc(baseDate.format('YYYY-MM-DD'))
+    .add(shift.dateOffset ?? 0, 'day')
+    .hour(startHour)
+    .minute(startMin);
 
-  // Check for overnight shift (e.g., 22:00 -> 06:00)
-  if (from.isAfter(to)) {
-    // For overnight shifts, end time is always next day
-    to = to.add(1, 'day');
+  let localEnd: dayjs.Dayjs;
+  if (durationMinutes !== null) {
+    localEnd = localStart.add(durationMinutes, 'minute');
+  } else {
+    localEnd = localStart.hour(endHour).minute(endMin);
+
+    // Overnight shift (e.g., 22:00 -> 06:00) or full day (start === end): end is next day
+    if (!localEnd.isAfter(localStart)) {
+      localEnd = localEnd.add(1, 'day');
+    }
   }
 
-  // Convert to UTC and return as milliseconds
-  // This ensures Grafana receives UTC timestamps regardless of client timezone
+  return { localStart, localEnd };
+};
+
+/**
+ * Returns the UTC offset (in minutes) of a timezone at the given instant.
+ */
+const getUtcOffset = (epochMs: number, tz: string): number => dayjs(epochMs).tz(tz).utcOffset();
+
+/**
+ * Resolves a wall-clock time in a timezone to an instant, with an explicit rule for DST transitions:
+ * - Gap (e.g., 02:30 on spring-forward night does not exist)
+ * - Overlap (e.g., 02:30 on fall-back night happens twice)
+ * In both cases 'earlier' uses the UTC offset in effect before the transition and 'later' the one after it.
+ *
+ * @param local - Naive local time (wall-clock fields stored as UTC)
+ * @param tz - IANA timezone
+ * @param offsetChoice - Which offset to use when the local time is ambiguous or skipped
+ * @returns UTC epoch milliseconds
+ */
+const resolveLocalTime = (local: dayjs.Dayjs, tz: string, offsetChoice: 'earlier' | 'later'): number => {
+  const naive = local.valueOf();
+  const offsetBefore = getUtcOffset(naive - DAY_MS, tz);
+  const offsetAfter = getUtcOffset(naive + DAY_MS, tz);
+  const candidateBefore = naive - offsetBefore * 60000;
+  const candidateAfter = naive - offsetAfter * 60000;
+
+  const beforeValid = getUtcOffset(candidateBefore, tz) === offsetBefore;
+  const afterValid = getUtcOffset(candidateAfter, tz) === offsetAfter;
+
+  // Regular time: exactly one interpretation exists
+  if (beforeValid !== afterValid) {
+    return beforeValid ? candidateBefore : candidateAfter;
+  }
+
+  // Same offset on both sides, overlap (both valid) or gap (neither valid)
+  return offsetChoice === 'earlier' ? candidateBefore : candidateAfter;
+};
+
+/**
+ * Calculates the absolute 'from' and 'to' epoch milliseconds for a given shift.
+ *
+ * @param shift - The shift configuration with start/end times (or duration) and optional date offset
+ * @param timezone - IANA timezone (e.g., "Europe/Warsaw") - shifts are interpreted in this timezone
+ * @param selectedDate - Optional date string (YYYY-MM-DD). If not provided, uses current date in the timezone.
+ * @param dstPolicy - How boundaries inside a DST transition are resolved (defaults to 'earlier')
+ * @returns Object with 'from' and 'to' as UTC epoch milliseconds
+ *
+ * IMPORTANT: Shift times are ALWAYS interpreted in the specified timezone, regardless of:
+ * - Database timezone (should be UTC)
+ * - Grafana server timezone
+ * - Client browser timezone
+ *
+ * The returned timestamps are in UTC milliseconds, ready for Grafana's time range.
+ *
+ * DATE OFFSET: If shift.dateOffset is set, it adds/subtracts days from the selected date.
+ * Example: dateOffset=-1 means the shift starts one day before the selected date.
+ * Useful for overnight shifts where you want to reference them by the day they END.
+ *
+ * DURATION: If shift.duration is set, it takes precedence over the end time and may exceed
+ * 24 hours (e.g., "48:00" for on-call duty). Durations are wall-clock: a 24h shift starting
+ * at 07:00 hands over at 07:00 the next day, even if a DST change makes it 23h or 25h long
+ * (unless dstPolicy is 'duration').
+ * Without a duration, an end time equal to the start time means a full 24h shift.
+ *
+ * DST POLICY: A boundary that falls into a DST gap or overlap is resolved with the UTC offset
+ * in effect before ('earlier') or after ('later') the transition. 'duration' resolves the start
+ * with the earlier offset and keeps the configured wall-clock length, so an 8h night shift is
+ * exactly 8 hours long even on transition nights (its end then differs from the clock time).
+ */
+export const getShiftTimeRange = (
+  shift: Shift,
+  tz: string,
+  selectedDate?: string,
+  dstPolicy: DstPolicy = 'earlier'
+): { from: number; to: number } => {
+  const { localStart, localEnd } = getLocalShiftBounds(shift, tz, selectedDate);
+
+  // Interpret the wall-clock times in the specified timezone, applying the DST policy
+  // Returned values are UTC epoch milliseconds, regardless of client timezone
+  const from = resolveLocalTime(localStart, tz, dstPolicy === 'later' ? 'later' : 'earlier');
+  if (dstPolicy === 'duration') {
+    return { from, to: from + localEnd.diff(localStart) };
+  }
+  return { from, to: resolveLocalTime(localEnd, tz, dstPolicy) };
+};
+
+/**
+ * Describes how a DST transition affects a shift instance, for warnings in the panel.
+ *
+ * @param shift - The shift to check
+ * @param tz - IANA timezone for shift interpretation
+ * @param selectedDate - Date string (YYYY-MM-DD)
+ * @param dstPolicy - DST policy used for the time range
+ * @returns Whether the instance crosses a transition, its real duration and its nominal (wall-clock) duration
+ */
+export const getShiftDstInfo = (
+  shift: Shift,
+  tz: string,
+  selectedDate: string,
+  dstPolicy: DstPolicy = 'earlier'
+): { crossesTransition: boolean; durationMs: number; nominalMs: number } => {
+  const { localStart, localEnd } = getLocalShiftBounds(shift, tz, selectedDate);
+  const { from, to } = getShiftTimeRange(shift, tz, selectedDate, dstPolicy);
+  const nominalMs = localEnd.diff(localStart);
+  const durationMs = to - from;
+
   return {
-    from: from.utc().valueOf(),
-    to: to.utc().valueOf(),
+    crossesTransition: getUtcOffset(from, tz) !== getUtcOffset(to, tz) || durationMs !== nominalMs,
+    durationMs,
+    nominalMs,
   };
 };
 
+/**
+ * Calculates the absolute break windows of a shift instance.
+ * Break times are clock times; each break is placed at its first occurrence after the shift starts,
+ * so a 02:00 break in a 22:00-06:00 shift falls on the next day. Breaks are clipped to the shift.
+ *
+ * @param shift - The shift with optional breaks
+ * @param tz - IANA timezone for shift interpretation
+ * @param selectedDate - Optional date string (YYYY-MM-DD)
+ * @param dstPolicy - DST policy used for the time range
+ * @returns Break windows as UTC epoch milliseconds, in chronological order
+ */
+export const getShiftBreakRanges = (
+  shift: Shift,
+  tz: string,
+  selectedDate?: string,
+  dstPolicy: DstPolicy = 'earlier'
+): Array<{ from: number; to: number }> => {
+  if (!shift.breaks || shift.breaks.length === 0) {
+    return [];
+  }
+
+  const { localStart } = getLocalShiftBounds(shift, tz, selectedDate);
+  const range = getShiftTimeRange(shift, tz, selectedDate, dstPolicy);
+  const offsetChoice = dstPolicy === 'later' ? 'later' : 'earlier';
+
+  return shift.breaks
+    .map((b) => {
+      const startMatch = /^(\d{1,2}):(\d{2})$/.exec(b.start || '');
+      const endMatch = /^(\d{1,2}):(\d{2})$/.exec(b.end || '');
+      if (!startMatch || !endMatch) {
+        throw new Error(`Invalid break time: start="${b.start}", end="${b.end}". Expected HH:mm format.`);
+      }
+      if ([startMatch[1], endMatch[1]].some((hour) => Number(hour) > 23)) {
+        throw new Error(
+          `Invalid break hour values: start="${b.start}", end="${b.end}". Hours must be between 0 and 23`
+        );
+      }
+      if ([startMatch[2], endMatch[2]].some((minute) => Number(minute) > 59)) {
+        throw new Error(
+          `Invalid break minute values: start="${b.start}", end="${b.end}". Minutes must be between 0 and 59`
+        );
+      }
+
+      let breakStart = localStart.hour(Number(startMatch[1])).minute(Number(startMatch[2]));
+      if (breakStart.isBefore(localStart)) {
+        breakStart = breakStart.add(1, 'day');
+      }
+      let breakEnd = breakStart.hour(Number(endMatch[1])).minute(Number(endMatch[2]));
+      if (!breakEnd.isAfter(breakStart)) {
+        breakEnd = breakEnd.add(1, 'day');
+      }
+
+      return {
+        from: Math.max(range.from, resolveLocalTime(breakStart, tz, offsetChoice)),
+        to: Math.min(range.to, resolveLocalTime(breakEnd, tz, offsetChoice)),
+      };
+    })
+    .filter((b) => b.to > b.from)
+    .sort((a, b) => a.from - b.from);
+};
+
+/**
+ * Calculates the gross length of a shift instance and its net working time after breaks.
+ *
+ * @param shift - The shift with optional breaks
+ * @param tz - IANA timezone for shift interpretation
+ * @param selectedDate - Optional date string (YYYY-MM-DD)
+ * @param dstPolicy - DST policy used for the time range
+ * @returns Gross and net durations in milliseconds
+ */
+export const getShiftWorkingTime = (
+  shift: Shift,
+  tz: string,
+  selectedDate?: string,
+  dstPolicy: DstPolicy = 'earlier'
+): { grossMs: number; netMs: number } => {
+  const { from, to } = getShiftTimeRange(shift, tz, selectedDate, dstPolicy);
+  const breaks = getShiftBreakRanges(shift, tz, selectedDate, dstPolicy);
+
+  // Merge overlapping breaks so shared minutes are only subtracted once
+  let breakMs = 0;
+  let coveredUntil = from;
+  breaks.forEach((b) => {
+    const start = Math.max(b.from, coveredUntil);
+    if (b.to > start) {
+      breakMs += b.to - start;
+      coveredUntil = b.to;
+    }
+  });
+
+  return { grossMs: to - from, netMs: to - from - breakMs };
+};
+
+/**
+ * Checks a shift against the rules applied when its time range and breaks are calculated,
+ * plus the name, date offset and weekdays, so shift definitions can be rejected before they are used.
+ *
+ * @param shift - The shift to check
+ * @returns Error message, or null if the shift is valid
+ */
+export const validateShift = (shift: Shift): string | null => {
+  if (!shift.name || !shift.name.trim()) {
+    return 'Shift name is required';
+  }
+  if (shift.dateOffset !== undefined && !Number.isInteger(shift.dateOffset)) {
+    return `Invalid date offset: "${shift.dateOffset}". Expected a whole number of days.`;
+  }
+  if (shift.weekdays && shift.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return `Invalid weekdays: "${shift.weekdays.join(',')}". Expected numbers from 0 (Sunday) to 6 (Saturday).`;
+  }
+  try {
+    // Any date and timezone will do; only the configuration is checked
+    getShiftTimeRange(shift, 'UTC', '2000-01-01');
+    getShiftBreakRanges(shift, 'UTC', '2000-01-01');
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+
+/**
+ * Works out how a shift plan covers the week, for the editor timeline.
+ * Shifts are laid out in UTC, a timezone-free wall clock, so DST never distorts the picture.
+ * Bars show each shift relative to its production date. Gaps and overlaps come from the shift instances
+ * of a reference week, so the after-midnight part of a shift counts towards the following day and shifts
+ * of neighbouring weekdays are compared too; the plan is taken to repeat every week.
+ * Both are given from midnight of the weekday they start on. Invalid shifts are reported instead of drawn.
+ *
+ * @param shifts - Configured shifts
+ * @returns Bars in minutes from midnight of the production date; gaps and overlaps in minutes from midnight
+ * of the weekdays they start on
+ */
+export const getShiftCoverage = (shifts: Shift[]): ShiftCoverage => {
+  const coverage: ShiftCoverage = { bars: [], gaps: [], overlaps: [], invalid: [] };
+  const dayStart = dayjs.utc('2000-01-01').valueOf();
+  // Monday 2000-01-03; the weeks before and after supply shifts reaching into it
+  const weekStart = dayjs.utc('2000-01-03');
+  const toWeekMinutes = (epochMs: number) => (epochMs - weekStart.valueOf()) / 60000;
+
+  const instances: Array<{ index: number; start: number; end: number }> = [];
+  shifts.forEach((shift, index) => {
+    const error = validateShift(shift);
+    if (error) {
+      coverage.invalid.push({ index, error });
+      return;
+    }
+    const { from, to } = getShiftTimeRange(shift, 'UTC', '2000-01-01');
+    coverage.bars.push({ index, start: (from - dayStart) / 60000, end: (to - dayStart) / 60000 });
+    getShiftInstances(
+      [shift],
+      'UTC',
+      weekStart.subtract(7, 'day').format('YYYY-MM-DD'),
+      weekStart.add(13, 'day').format('YYYY-MM-DD')
+    ).forEach((instance) =>
+      instances.push({ index, start: toWeekMinutes(instance.from), end: toWeekMinutes(instance.to) })
+    );
+  });
+  instances.sort((a, b) => a.start - b.start);
+
+  // Minutes of the reference week as a weekday (0 = Sunday) and minutes from its midnight
+  const getDay = (weekMinutes: number) => {
+    const day = Math.floor(weekMinutes / DAY_MINUTES);
+    return { weekday: (day + 1) % 7, start: weekMinutes - day * DAY_MINUTES };
+  };
+
+  // Ranges repeating on several weekdays are listed once; weekdays are left out when they occur every day
+  const addByWeekday = <T extends { start: number; end: number; weekdays?: number[] }>(
+    list: T[],
+    range: Omit<T, 'weekdays'>,
+    weekday: number,
+    same: (a: Omit<T, 'weekdays'>, b: T) => boolean
+  ) => {
+    const existing = list.find((item) => item.start === range.start && item.end === range.end && same(range, item));
+    if (existing) {
+      existing.weekdays!.push(weekday);
+    } else {
+      list.push({ ...range, weekdays: [weekday] } as T);
+    }
+  };
+
+  // Overlapping instances of different shifts starting within the reference week
+  instances.forEach((a, i) => {
+    instances.slice(i + 1).forEach((b) => {
+      const start = Math.max(a.start, b.start);
+      const end = Math.min(a.end, b.end);
+      if (a.index === b.index || end <= start || start < 0 || start >= WEEK_MINUTES) {
+        return;
+      }
+      const { weekday, start: dayMinutes } = getDay(start);
+      const pair: [number, number] = a.index < b.index ? [a.index, b.index] : [b.index, a.index];
+      addByWeekday(
+        coverage.overlaps,
+        { start: dayMinutes, end: dayMinutes + end - start, shifts: pair },
+        weekday,
+        (x, y) => x.shifts[0] === y.shifts[0] && x.shifts[1] === y.shifts[1]
+      );
+    });
+  });
+
+  // Uncovered stretches of the reference week, with a gap across the end of the week kept in one piece
+  if (instances.length > 0) {
+    const weekGaps: Array<{ start: number; end: number }> = [];
+    let covered = 0;
+    instances.forEach((instance) => {
+      if (instance.start > covered && covered < WEEK_MINUTES) {
+        weekGaps.push({ start: covered, end: Math.min(instance.start, WEEK_MINUTES) });
+      }
+      covered = Math.max(covered, instance.end);
+    });
+    if (covered < WEEK_MINUTES) {
+      weekGaps.push({ start: covered, end: WEEK_MINUTES });
+    }
+    if (weekGaps.length > 1 && weekGaps[0].start === 0 && weekGaps[weekGaps.length - 1].end === WEEK_MINUTES) {
+      const last = weekGaps.pop()!;
+      weekGaps[0] = { start: last.start, end: weekGaps[0].end + WEEK_MINUTES };
+    }
+    weekGaps.forEach((gap) => {
+      const { weekday, start } = getDay(gap.start);
+      addByWeekday(coverage.gaps, { start, end: start + gap.end - gap.start }, weekday, () => true);
+    });
+  }
+
+  [coverage.gaps, coverage.overlaps].forEach((list) =>
+    list.forEach((item) => {
+      if (item.weekdays!.length === 7) {
+        delete item.weekdays;
+      }
+    })
+  );
+  coverage.gaps.sort((a, b) => a.start - b.start);
+  coverage.overlaps.sort((a, b) => a.start - b.start);
+
+  return coverage;
+};
+
+/**
+ * Formats a duration in milliseconds as hours and minutes, e.g. "7h 30m".
+ */
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+};
+
+/**
+ * Returns the wall-clock end time ("HH:mm") of a shift defined by start and duration.
+ *
+ * @param start - Start time in "HH:mm" format
+ * @param duration - Duration in "H:mm" format
+ * @returns End time of day, or null if start or duration are invalid
+ */
+export const getDurationEndTime = (start: string, duration: string): string | null => {
+  const durationMinutes = parseDuration(duration);
+  const match = /^(\d{1,2}):(\d{2})$/.exec(start || '');
+  if (durationMinutes === null || !match) {
+    return null;
+  }
+  return dayjs
+    .utc(0)
+    .add(Number(match[1]) * 60 + Number(match[2]) + durationMinutes, 'minute')
+    .format('HH:mm');
+};
+
+/**
+ * Formats the start and end of a shift for labels, e.g. "22:00 - 06:00".
+ * Shifts lasting 24 hours or more show how many days later they end, e.g. "07:00 - 07:00 (+2d)".
+ * Never throws, so it is safe to call while rendering misconfigured shifts.
+ *
+ * @param shift - The shift to format
+ * @returns Human-readable time span
+ */
+export const formatShiftTimes = (shift: Shift): string => {
+  const durationMinutes = shift.duration ? parseDuration(shift.duration) : null;
+  const endTime = shift.duration ? getDurationEndTime(shift.start, shift.duration) : null;
+
+  if (durationMinutes === null || endTime === null) {
+    return shift.end && shift.end === shift.start
+      ? `${shift.start} - ${shift.end} (+1d)`
+      : `${shift.start} - ${shift.end}`;
+  }
+
+  // Shifts of a day or longer say how many days after the start day they end
+  if (durationMinutes >= 24 * 60) {
+    const [startHour, startMin] = shift.start.split(':').map(Number);
+    const days = Math.floor((startHour * 60 + startMin + durationMinutes) / (24 * 60));
+    return `${shift.start} - ${endTime} (+${days}d)`;
+  }
+
+  return `${shift.start} - ${endTime}`;
+};
+
+/**
+ * Formats an absolute time range as wall-clock times in the business timezone.
+ * Ranges ending on a later day say how many days after the start day they end.
+ *
+ * @param from - Range start (UTC epoch milliseconds)
+ * @param to - Range end (UTC epoch milliseconds)
+ * @param tz - IANA timezone used for display
+ * @returns Formatted range, e.g. "06:00 - 06:00 (+1d)"
+ */
+export const formatTimeRange = (from: number, to: number, tz: string): string => {
+  const localFrom = dayjs(from).tz(tz);
+  const localTo = dayjs(to).tz(tz);
+  const days = dayjs.utc(localTo.format('YYYY-MM-DD')).diff(dayjs.utc(localFrom.format('YYYY-MM-DD')), 'day');
+
+  return `${localFrom.format('HH:mm')} - ${localTo.format('HH:mm')}${days > 0 ? ` (+${days}d)` : ''}`;
+};
+
+/**
+ * Returns the production date a moment belongs to.
+ * A production day begins at productionDayStart in the business timezone, so with a 06:00 start
+ * 02:00 on the 13th still belongs to the 12th. Invalid start times fall back to midnight.
+ *
+ * @param tz - IANA timezone of the business
+ * @param productionDayStart - Start of the production day in "HH:mm" format
+ * @param now - Moment to look up (UTC epoch milliseconds), defaults to the current time
+ * @returns Production date string (YYYY-MM-DD)
+ */
+export const getProductionDate = (tz: string, productionDayStart = '00:00', now: number = Date.now()): string => {
+  const local = dayjs(now).tz(tz);
+  const match = /^(\d{1,2}):(\d{2})$/.exec(productionDayStart);
+  const startMinutes = match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+
+  const date = local.hour() * 60 + local.minute() < startMinutes ? local.subtract(1, 'day') : local;
+  return date.format('YYYY-MM-DD');
+};
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Resolves a date expression to a date relative to today.
+ * Accepts an absolute date (YYYY-MM-DD), "today", "yesterday", "tomorrow", "today-N" / "today+N"
+ * and "last <weekday>" / "next <weekday>" (full or three-letter names, strictly before or after today).
+ *
+ * @param expression - Date expression, case-insensitive
+ * @param today - Reference date (YYYY-MM-DD), usually the current production date
+ * @returns Date string (YYYY-MM-DD)
+ * @throws Error if the expression cannot be parsed
+ */
+export const resolveDateExpression = (expression: string, today: string): string => {
+  const value = expression.trim().toLowerCase();
+  const base = dayjs.utc(today);
+
+  // Round-trip check rejects impossible dates such as 2025-02-30
+  if (dayjs.utc(value).format('YYYY-MM-DD') === value) {
+    return value;
+  }
+
+  const named: Record<string, number> = { today: 0, yesterday: -1, tomorrow: 1 };
+  if (value in named) {
+    return base.add(named[value], 'day').format('YYYY-MM-DD');
+  }
+
+  const relative = /^today\s*([+-])\s*(\d+)$/.exec(value);
+  if (relative) {
+    const days = Number(relative[2]);
+    return base.add(relative[1] === '-' ? -days : days, 'day').format('YYYY-MM-DD');
+  }
+
+  const weekdayMatch = /^(last|next)\s+([a-z]+)$/.exec(value);
+  const weekday = weekdayMatch
+    ? WEEKDAY_NAMES.findIndex((name) => name === weekdayMatch[2] || name.slice(0, 3) === weekdayMatch[2])
+    : -1;
+  if (weekdayMatch && weekday >= 0) {
+    // Days to step back to the previous occurrence, or forward to the next one; never today itself
+    const days =
+      weekdayMatch[1] === 'last' ? -((base.day() - weekday + 6) % 7) - 1 : ((weekday - base.day() + 6) % 7) + 1;
+    return base.add(days, 'day').format('YYYY-MM-DD');
+  }
+
+  throw new Error(`Invalid date expression: "${expression}"`);
+};
+
 /**
  * Checks if a shift is currently active based on the current time.
  * If selectedDate is provided, checks if current time falls within that shift on that date.
+ * Without a selected date the current production date is used.
  *
  * @param shift - The shift to check
  * @param timezone - IANA timezone for shift interpretation
  * @param selectedDate - Optional date string (YYYY-MM-DD)
+ * @param productionDayStart - Start of the production day in "HH:mm" format (default midnight)
+ * @param dstPolicy - DST policy used for the time range
  * @returns true if the shift is currently active
  */
-export const isShiftActive = (shift: Shift, tz: string, selectedDate?: string): boolean => {
-  const { from, to } = getShiftTimeRange(shift, tz, selectedDate);
+export const isShiftActive = (
+  shift: Shift,
+  tz: string,
+  selectedDate?: string,
+  productionDayStart = '00:00',
+  dstPolicy: DstPolicy = 'earlier'
+): boolean => {
   const now = Date.now();
+  const today = getProductionDate(tz, productionDayStart, now);
 
-  // If a specific date is selected, check if it's today and if we're in the shift
-  if (selectedDate) {
-    const selected = dayjs.tz(selectedDate, tz);
-    const today = dayjs.tz(dayjs(), tz);
-
-    // Only show as active if the selected date is today and we're in the shift
-    if (selected.isSame(today, 'day')) {
-      return now >= from && now <= to;
-    }
+  // Only show as active if the selected date is the current production day
+  if (selectedDate && selectedDate !== today) {
     return false;
   }
 
+  const { from, to } = getShiftTimeRange(shift, tz, today, dstPolicy);
   return now >= from && now <= to;
 };
+
+/**
+ * Checks if a shift runs on the given date according to its weekday schedule.
+ * The weekday is taken from the selected date itself (before dateOffset is applied),
+ * so a Saturday night shift with dateOffset=-1 is still listed under Saturday.
+ *
+ * @param shift - The shift to check
+ * @param selectedDate - Date string (YYYY-MM-DD)
+ * @returns true if the shift has no weekday restriction or runs on that weekday
+ */
+export const isShiftScheduledOn = (shift: Shift, selectedDate: string): boolean => {
+  if (!shift.weekdays || shift.weekdays.length === 0) {
+    return true;
+  }
+
+  // Calendar dates carry no time, so the weekday is the same in every timezone
+  const weekday = dayjs(selectedDate).day();
+  return shift.weekdays.includes(weekday);
+};
+
+/**
+ * Returns the shifts that apply to the given date, preserving their configured order.
+ * Exceptions dated on the selected date are applied on top of the weekday schedule:
+ * - 'cancel' keeps the shift in the list but marks it with the exception
+ * - 'modify' replaces the shift's start/end times; a new end time also replaces the shift's duration
+ * - 'add' appends an extra shift, regardless of weekdays
+ *
+ * @param shifts - All configured shifts
+ * @param selectedDate - Date string (YYYY-MM-DD)
+ * @param exceptions - Optional dated overrides
+ * @returns Shifts scheduled on that date
+ */
+export const getShiftsForDate = (
+  shifts: Shift[],
+  selectedDate: string,
+  exceptions: ShiftException[] = []
+): ScheduledShift[] => {
+  const todaysExceptions = exceptions.filter((e) => e.date === selectedDate);
+
+  const scheduled: ScheduledShift[] = shifts
+    .filter((shift) => isShiftScheduledOn(shift, selectedDate))
+    .map((shift) => {
+      const exception = todaysExceptions.find((e) => e.type !== 'add' && e.shift === shift.name);
+      if (!exception) {
+        return shift;
+      }
+      if (exception.type === 'modify') {
+        // A new end time replaces the duration, which would otherwise take precedence over it
+        const { duration, ...rest } = shift;
+        return {
+          ...(exception.end ? rest : shift),
+          start: exception.start || shift.start,
+          end: exception.end || shift.end,
+          exception,
+        };
+      }
+      return { ...shift, exception };
+    });
+
+  const added: ScheduledShift[] = todaysExceptions
+    .filter((e) => e.type === 'add')
+    .map((exception) => ({
+      name: exception.shift,
+      start: exception.start ?? '',
+      end: exception.end ?? '',
+      dateOffset: exception.dateOffset,
+      exception,
+    }));
+
+  return [...scheduled, ...added];
+};
+
+/**
+ * Checks if a scheduled shift was cancelled by an exception.
+ */
+export const isShiftCancelled = (shift: ScheduledShift): boolean => shift.exception?.type === 'cancel';
+
+/**
+ * Calculates the whole production day of a date: from the start of its earliest shift
+ * to the end of its latest one, including shifts moved by dateOffset.
+ * Weekday schedules and exceptions are applied first; cancelled shifts are left out.
+ *
+ * @param shifts - Configured shifts
+ * @param tz - IANA timezone for shift interpretation
+ * @param selectedDate - Date string (YYYY-MM-DD)
+ * @param exceptions - Dated overrides of the regular shift plan
+ * @param dstPolicy - DST policy used for the shift time ranges
+ * @returns Envelope of all shift ranges, or null when no shift runs on the date
+ */
+export const getFullDayRange = (
+  shifts: Shift[],
+  tz: string,
+  selectedDate: string,
+  exceptions: ShiftException[] = [],
+  dstPolicy: DstPolicy = 'earlier'
+): { from: number; to: number } | null => {
+  const ranges = getShiftsForDate(shifts, selectedDate, exceptions)
+    .filter((shift) => !isShiftCancelled(shift))
+    .map((shift) => getShiftTimeRange(shift, tz, selectedDate, dstPolicy));
+
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  return {
+    from: Math.min(...ranges.map((r) => r.from)),
+    to: Math.max(...ranges.map((r) => r.to)),
+  };
+};
+
+/**
+ * Lists every shift instance of a date range in chronological order.
+ * Weekday schedules and exceptions are applied per date; cancelled shifts are left out.
+ * An instance whose time range cannot be calculated (e.g. a malformed shift or exception)
+ * is skipped and passed to onInvalid, so the rest of the range stays usable.
+ *
+ * @param shifts - Configured shifts
+ * @param tz - IANA timezone for shift interpretation
+ * @param fromDate - First production date (YYYY-MM-DD)
+ * @param toDate - Last production date (YYYY-MM-DD), inclusive
+ * @param exceptions - Dated overrides of the regular shift plan
+ * @param dstPolicy - DST policy used for the shift time ranges
+ * @param onInvalid - Called with the shift, date and error message of every skipped instance
+ * @returns Shift instances sorted by start time
+ */
+export const getShiftInstances = (
+  shifts: Shift[],
+  tz: string,
+  fromDate: string,
+  toDate: string,
+  exceptions: ShiftException[] = [],
+  dstPolicy: DstPolicy = 'earlier',
+  onInvalid?: (shift: ScheduledShift, date: string, error: string) => void
+): ShiftInstance[] => {
+  const instances: ShiftInstance[] = [];
+  const last = dayjs.utc(toDate);
+
+  for (let day = dayjs.utc(fromDate); !day.isAfter(last, 'day'); day = day.add(1, 'day')) {
+    const date = day.format('YYYY-MM-DD');
+    getShiftsForDate(shifts, date, exceptions)
+      .filter((shift) => !isShiftCancelled(shift))
+      .forEach((shift) => {
+        try {
+          const { from, to } = getShiftTimeRange(shift, tz, date, dstPolicy);
+          instances.push({ shift, date, from, to });
+        } catch (err) {
+          onInvalid?.(shift, date, err instanceof Error ? err.message : String(err));
+        }
+      });
+  }
+
+  // Stable sort keeps the configured order for shifts starting together
+  return instances.sort((a, b) => a.from - b.from);
+};
+
+/**
+ * Finds the shift instance running at a moment, or the last one that ended before it.
+ * When running instances overlap, the one that started last wins.
+ *
+ * @param instances - Shift instances sorted by start time (see getShiftInstances)
+ * @param now - Moment to look up (UTC epoch milliseconds)
+ * @param which - 'current' for the running instance, 'previous' for the most recently finished one
+ * @returns The matching instance, or undefined
+ */
+export const findShiftInstance = (
+  instances: ShiftInstance[],
+  now: number,
+  which: 'current' | 'previous'
+): ShiftInstance | undefined => {
+  if (which === 'current') {
+    return [...instances].reverse().find((i) => i.from <= now && now < i.to);
+  }
+
+  return instances
+    .filter((i) => i.to <= now)
+    .reduce<ShiftInstance | undefined>((latest, i) => (!latest || i.to >= latest.to ? i : latest), undefined);
+};
+
+/**
+ * Finds the next moment a shift starts or ends after now.
+ *
+ * @param instances - Shift instances (see getShiftInstances)
+ * @param now - Reference moment (UTC epoch milliseconds)
+ * @returns The next shift boundary (UTC epoch milliseconds), or undefined if none follows
+ */
+export const getNextShiftBoundary = (instances: ShiftInstance[], now: number): number | undefined => {
+  const boundaries = instances.flatMap((i) => [i.from, i.to]).filter((t) => t > now);
+  return boundaries.length > 0 ? Math.min(...boundaries) : undefined;
+};
+
+/**
+ * Finds the shift instance before or after a given one, moving across dates as needed.
+ * Without a shift (or when it does not run on the date), navigation starts at the date itself:
+ * forward to its first shift, backward to the last shift of an earlier date.
+ * Up to a week in each direction is searched, which skips weekends and holiday closures.
+ *
+ * @param shifts - Configured shifts
+ * @param tz - IANA timezone for shift interpretation
+ * @param date - Production date (YYYY-MM-DD) of the current instance
+ * @param shiftName - Name of the current shift, if any
+ * @param direction - -1 for the previous instance, 1 for the next one
+ * @param exceptions - Dated overrides of the regular shift plan
+ * @param dstPolicy - DST policy used for the shift time ranges
+ * @returns The adjacent instance, or undefined if none is found
+ */
+export const getAdjacentShiftInstance = (
+  shifts: Shift[],
+  tz: string,
+  date: string,
+  shiftName: string | undefined,
+  direction: -1 | 1,
+  exceptions: ShiftException[] = [],
+  dstPolicy: DstPolicy = 'earlier'
+): ShiftInstance | undefined => {
+  const day = dayjs.utc(date);
+  const instances = getShiftInstances(
+    shifts,
+    tz,
+    day.subtract(7, 'day').format('YYYY-MM-DD'),
+    day.add(7, 'day').format('YYYY-MM-DD'),
+    exceptions,
+    dstPolicy
+  );
+
+  const index = instances.findIndex((i) => i.date === date && i.shift.name === shiftName);
+  if (index >= 0) {
+    return instances[index + direction];
+  }
+
+  return direction > 0 ? instances.find((i) => i.date >= date) : [...instances].reverse().find((i) => i.date < date);
+};
+
+/**
+ * Finds the shift instance whose time range matches a given range, e.g. the dashboard time range.
+ * Dates around the range start are searched, so shifts moved by dateOffset are found too.
+ * A range ending at "now" matches the running instance that starts at the same moment.
+ *
+ * @param shifts - Configured shifts
+ * @param tz - IANA timezone for shift interpretation
+ * @param from - Range start (UTC epoch milliseconds)
+ * @param to - Range end (UTC epoch milliseconds) or "now"
+ * @param exceptions - Dated overrides of the regular shift plan
+ * @param dstPolicy - DST policy used for the shift time ranges
+ * @returns The matching instance, or undefined if the range is not a shift
+ */
+export const findShiftInstanceByRange = (
+  shifts: Shift[],
+  tz: string,
+  from: number,
+  to: number | 'now',
+  exceptions: ShiftException[] = [],
+  dstPolicy: DstPolicy = 'earlier'
+): ShiftInstance | undefined => {
+  // Tolerate sub-second rounding of the dashboard time range
+  const TOLERANCE_MS = 1000;
+  const now = Date.now();
+  const day = dayjs(from).tz(tz);
+  const instances = getShiftInstances(
+    shifts,
+    tz,
+    day.subtract(2, 'day').format('YYYY-MM-DD'),
+    day.add(2, 'day').format('YYYY-MM-DD'),
+    exceptions,
+    dstPolicy
+  );
+
+  return instances.find(
+    (i) =>
+      Math.abs(i.from - from) < TOLERANCE_MS &&
+      (to === 'now' ? i.from <= now && now < i.to : Math.abs(i.to - to) < TOLERANCE_MS)
+  );
+};
+
+/**
+ * Returns the crew working a shift on the given date according to a rotation pattern.
+ * Like weekday schedules, the cycle day is taken from the selected date (before dateOffset).
+ *
+ * @param shift - The shift to look up
+ * @param rotation - Optional crew rotation configuration
+ * @param selectedDate - Date string (YYYY-MM-DD)
+ * @returns The crew name, or undefined if no crew is assigned
+ */
+export const getShiftCrew = (
+  shift: Shift,
+  rotation: CrewRotation | undefined,
+  selectedDate: string
+): string | undefined => {
+  if (!rotation || !rotation.cycleLength || rotation.cycleLength < 1 || !rotation.anchorDate) {
+    return undefined;
+  }
+
+  const assignment = rotation.assignments?.find((a) => a.shift === shift.name);
+  if (!assignment) {
+    return undefined;
+  }
+
+  // Count whole calendar days in UTC so DST changes cannot skew the cycle
+  const anchor = dayjs.utc(rotation.anchorDate);
+  const date = dayjs.utc(selectedDate);
+  if (!anchor.isValid() || !date.isValid()) {
+    return undefined;
+  }
+
+  const cycleLength = Math.floor(rotation.cycleLength);
+  const cycleDay = ((date.diff(anchor, 'day') % cycleLength) + cycleLength) % cycleLength;
+  return assignment.crews[cycleDay] || undefined;
+};
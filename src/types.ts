@@ -1,16 +1,112 @@
+// Break window inside a shift (e.g., lunch or maintenance), excluded from working time
+export interface ShiftBreak {
+  start: string;         // Start time in "HH:mm" format (24-hour)
+  end: string;           // End time in "HH:mm" format (24-hour)
+  name?: string;         // Optional: display name (e.g., "Lunch")
+}
+
 // Represents a single work shift with start/end times
 export interface Shift {
   name: string;          // Display name (e.g., "Day Shift", "Night Shift")
   start: string;         // Start time in "HH:mm" format (24-hour)
   end: string;           // End time in "HH:mm" format (24-hour)
+  duration?: string;     // Optional: length in "H:mm" format, may exceed 24h (e.g., "48:00"). Takes precedence over end
   dateOffset?: number;   // Optional: days to add/subtract from selected date (e.g., -1, 0, +1)
+  breaks?: ShiftBreak[]; // Optional: breaks excluded from net working time
+  weekdays?: number[];   // Optional: days of the week the shift runs on (0 = Sunday ... 6 = Saturday). Empty = every day
+}
+
+// Dated override of the regular shift plan (e.g., public holidays, Dec 24)
+export interface ShiftException {
+  date: string;                      // Date (YYYY-MM-DD) the override applies to
+  type: 'cancel' | 'modify' | 'add'; // Cancel a shift, change its times, or add an extra shift
+  shift: string;                     // Name of the affected shift (or of the added shift)
+  start?: string;                    // New start time in "HH:mm" format ('modify' and 'add')
+  end?: string;                      // New end time in "HH:mm" format ('modify' and 'add')
+  dateOffset?: number;               // Optional: date offset of an added shift
+  note?: string;                     // Optional: label shown in the panel (e.g., "Christmas Eve")
 }
 
+// A shift as it applies on a specific date, after exceptions have been applied
+export interface ScheduledShift extends Shift {
+  exception?: ShiftException;        // The exception that cancelled, modified or added this shift
+}
+
+// A shift on a concrete production date with its absolute time range
+export interface ShiftInstance {
+  shift: ScheduledShift;             // The shift as scheduled on that date
+  date: string;                      // Production date (YYYY-MM-DD) the instance belongs to
+  from: number;                      // Start as UTC epoch milliseconds
+  to: number;                        // End as UTC epoch milliseconds
+}
+
+// Wall-clock coverage of the weekly shift plan, in minutes from midnight
+export interface ShiftCoverage {
+  bars: Array<{ index: number; start: number; end: number }>;                // Valid shifts by position in the list, from midnight of the production date (before dateOffset)
+  gaps: Array<{ start: number; end: number; weekdays?: number[] }>;          // Uncovered times, from midnight of the weekdays they start on; every day without weekdays
+  overlaps: Array<{ start: number; end: number; shifts: [number, number]; weekdays?: number[] }>; // Times covered by two shifts, like gaps
+  invalid: Array<{ index: number; error: string }>;                          // Shifts failing validation
+}
+
+// Crews working a shift across the days of a rotation cycle
+export interface RotationAssignment {
+  shift: string;         // Name of the shift the crews are assigned to
+  crews: string[];       // Crew per cycle day (index 0 = anchor date). Empty string = nobody assigned
+}
+
+// Rotating crew pattern (e.g., DuPont, Panama, 4-on-4-off)
+export interface CrewRotation {
+  cycleLength: number;              // Length of the rotation cycle in days
+  anchorDate: string;               // Date (YYYY-MM-DD) on which cycle day 0 falls
+  assignments: RotationAssignment[]; // Crew-to-slot assignments, one entry per shift
+}
+
+// Names of dashboard variables receiving the selected shift; empty names are not published
+export interface ShiftVariableNames {
+  name?: string;         // Shift name (e.g., "shift_name")
+  date?: string;         // Production date (YYYY-MM-DD)
+  start?: string;        // Shift start as UTC epoch milliseconds
+  end?: string;          // Shift end as UTC epoch milliseconds
+  index?: string;        // 1-based position of the shift in the configured list
+  crew?: string;         // Crew on duty according to the rotation
+}
+
+// Fields of the panel query holding the shift definitions; empty fields are detected by name (e.g., "start")
+export interface ShiftFieldMapping {
+  name?: string;         // Shift name
+  start?: string;        // Start time ("HH:mm" or SQL TIME)
+  end?: string;          // End time ("HH:mm" or SQL TIME)
+  duration?: string;     // Length in "H:mm" format
+  dateOffset?: string;   // Days to add/subtract from the selected date
+  weekdays?: string;     // Weekday number (0 = Sunday) or list such as "1,2,3" / "Mon,Tue"
+}
+
+// How shift boundaries inside a DST transition are resolved:
+// 'earlier' / 'later' = UTC offset before / after the transition, 'duration' = keep the wall-clock length
+export type DstPolicy = 'earlier' | 'later' | 'duration';
+
 // Panel configuration options
 export interface SimpleOptions {
   shifts: Shift[];                    // Array of configured shifts
+  shiftsSource?: 'manual' | 'data' | 'text'; // Where shifts come from: the shifts list, the panel query or shiftsText (default 'manual')
+  shiftFields?: ShiftFieldMapping;    // Field mapping used when shifts come from the panel query
+  shiftsText?: string;                // JSON or CSV shift plan, interpolated with dashboard variables (e.g., "${shift_plan}")
+  rotation?: CrewRotation;            // Optional crew rotation applied on top of the shifts
+  exceptions?: ShiftException[];      // Optional dated overrides (holidays, shortened days)
   displayMode: 'buttons' | 'dropdown'; // How shifts are displayed
   showDatePicker: boolean;            // Whether to show the date picker
-  selectedDate?: string;              // Currently selected date (ISO format: YYYY-MM-DD)
+  showFullDay?: boolean;              // Optional: offer a "Full day" selection spanning all shifts of the date
+  autoSelect?: 'none' | 'current' | 'previous'; // Shift selected when the panel loads (default 'none')
+  shiftToDate?: boolean;              // Optional: select a running shift as "shift start to now"
+  showNavigation?: boolean;           // Optional: show previous/next shift arrows
+  showLiveToggle?: boolean;           // Optional: show the follow-live toggle in the panel
+  followLive?: boolean;               // Optional: start in follow-live mode (selection advances with the running shift)
+  selectedDate?: string;              // Optional: date the panel opens on, YYYY-MM-DD or an expression such as "today-1" or "last monday"
   timezone: string;                   // IANA timezone (e.g., "Europe/Warsaw")
+  productionDayStart?: string;        // Optional: "HH:mm" at which a production day begins in the timezone (default "00:00")
+  dstPolicy?: DstPolicy;              // Optional: DST gap/overlap policy for shift boundaries (default 'earlier')
+  variables?: ShiftVariableNames;     // Optional: dashboard variables receiving the selected shift
+  breaksVariable?: string;            // Optional: dashboard variable receiving the selected shift's breaks
+  breaksVariableFormat?: 'json' | 'sql'; // Format of the breaks variable (epoch pairs or SQL NOT BETWEEN clause)
+  breaksSqlColumn?: string;           // Time column used in the SQL clause (default "time")
 }